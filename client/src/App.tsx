@@ -9,12 +9,33 @@ import {
   Subscription,
   withLatestFrom,
 } from 'rxjs'
-import { ARENA, type ChatMessage, type MatchState, type StateSnapshot } from '@shared/protocol'
+import {
+  ARENA,
+  GAME_MODES,
+  TEAM_IDS,
+  type ChatMessage,
+  type GameMode,
+  type InviteOptions,
+  type MatchResult,
+  type MatchSettings,
+  type MatchState,
+  type RoomInvite,
+  type StateSnapshot,
+  type TeamId,
+  type WinCondition,
+} from '@shared/protocol'
+import type { ReplaySummary } from '@shared/replay'
 import './App.css'
+import MatchResults from './MatchResults'
+import ReplayViewer from './ReplayViewer'
+import { fetchReplays, loadAdminToken, saveAdminToken } from './net/replays'
 import { connectSocket } from './net/socket'
 import { createInputPackets } from './rx/input'
 import { createSnapshotInterpolator } from './rx/interpolation'
+import { createKillcam } from './rx/killcam'
+import { createLocalPredictor } from './rx/prediction'
 import {
+  cameraFollowing,
   renderSnapshot,
   type BeamFx,
   type NovaFx,
@@ -23,28 +44,105 @@ import {
   type StrikeMarkFx,
   type StrikePreview,
 } from './render/canvasRenderer'
-import { colorFromId } from './render/colors'
+import { colorForPlayer, colorFromId, TEAM_COLORS } from './render/colors'
 import { updateFxRegistry, type FxState } from './render/fx'
 
+const SPECTATOR_ZOOM = 1.5
+
+const MODE_LABELS: Record<GameMode, string> = {
+  ffa: 'Free for all',
+  tdm: 'Team deathmatch',
+  ctf: 'Capture the flag',
+  koth: 'King of the hill',
+  lms: 'Last man standing',
+  survival: 'Co-op survival',
+}
+
+// sensible score limits per mode; the host can still change them
+const DEFAULT_SCORE_LIMITS: Record<GameMode, number> = {
+  ffa: 0,
+  tdm: 30,
+  ctf: 3,
+  koth: 60,
+  lms: 0,
+  survival: 0,
+}
+const HILL_RELOCATE_OPTIONS = [15, 30, 45, 60, 90, 120]
+const LIVES_OPTIONS = [1, 2, 3, 5]
+const ROUND_COUNT_OPTIONS = [1, 3, 5]
+
+const SCORE_LIMIT_LABELS: Record<GameMode, string> = {
+  ffa: 'Kill limit',
+  tdm: 'Team score limit',
+  ctf: 'Capture limit',
+  koth: 'Hill score limit',
+  lms: 'Score limit',
+  survival: 'Score limit',
+}
+
+const WIN_CONDITION_LABELS: Record<WinCondition, string> = {
+  time: 'Time limit',
+  score: 'Score limit',
+  either: 'Whichever first',
+}
+const LEAD_MARGIN_OPTIONS = [1, 2, 3, 5]
+const INVITE_CHOICES: { label: string; options: InviteOptions }[] = [
+  { label: 'Single use', options: { singleUse: true } },
+  { label: '1 hour', options: { singleUse: false, expiresInSec: 3600 } },
+  { label: '24 hours', options: { singleUse: false, expiresInSec: 86400 } },
+  { label: 'Until the room closes', options: { singleUse: false } },
+]
+const COUNTDOWN_OPTIONS = [3, 5, 10]
+
+const teamLabel = (team: TeamId) => team.charAt(0).toUpperCase() + team.slice(1)
+
+// invite links look like ?join=ROOMID&invite=TOKEN
+const readInviteParams = () => {
+  const params = new URLSearchParams(window.location.search)
+  return { roomId: (params.get('join') ?? '').toUpperCase(), invite: params.get('invite') ?? '' }
+}
+
+const inviteLink = (invite: RoomInvite) => {
+  const url = new URL(window.location.pathname, window.location.origin)
+  url.searchParams.set('join', invite.roomId)
+  url.searchParams.set('invite', invite.token)
+  return url.toString()
+}
+
 function App() {
   const [name, setName] = useState('')
-  const [roomId, setRoomId] = useState('')
+  const [roomId, setRoomId] = useState(() => readInviteParams().roomId)
+  const [inviteToken, setInviteToken] = useState(() => readInviteParams().invite)
+  const [roomPassword, setRoomPassword] = useState('')
+  const [inviteChoice, setInviteChoice] = useState(0)
+  const [invite, setInvite] = useState<RoomInvite | null>(null)
   const [roomInfo, setRoomInfo] = useState<{ roomId: string; playerId: string } | null>(null)
   const [snapshot, setSnapshot] = useState<StateSnapshot | null>(null)
   const [pingMs, setPingMs] = useState<number | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [reconnecting, setReconnecting] = useState(false)
+  const [outdated, setOutdated] = useState<string | null>(null)
+  const [suspicion, setSuspicion] = useState<Record<string, number>>({})
   const [rooms, setRooms] = useState<
     {
       roomId: string
       playerCount: number
       maxPlayers: number
       isPrivate: boolean
+      hasPassword: boolean
       fillWithBots: boolean
       botCount: number
       botDifficulty: 'easy' | 'normal' | 'hard'
+      spectatorCount: number
+      maxSpectators: number
+      mode: GameMode
     }[]
   >([])
+  const [replays, setReplays] = useState<ReplaySummary[]>([])
+  const [adminToken, setAdminToken] = useState(loadAdminToken)
+  const [watchingReplayId, setWatchingReplayId] = useState<string | null>(null)
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const [mutedIds, setMutedIds] = useState<string[]>([])
   const [chatOpen, setChatOpen] = useState(false)
   const [chatText, setChatText] = useState('')
   const [strikeTargeting, setStrikeTargeting] = useState(false)
@@ -57,11 +155,28 @@ function App() {
   const [fillWithBots, setFillWithBots] = useState(false)
   const [botCount, setBotCount] = useState(0)
   const [botDifficulty, setBotDifficulty] = useState<'easy' | 'normal' | 'hard'>('normal')
+  const [killcamEnabled, setKillcamEnabled] = useState(true)
+  const [maxSpectators, setMaxSpectators] = useState(8)
+  const [mode, setMode] = useState<GameMode>('ffa')
+  const [teamCount, setTeamCount] = useState(2)
+  const [friendlyFire, setFriendlyFire] = useState(false)
+  const [scoreLimit, setScoreLimit] = useState(30)
+  const [matchResult, setMatchResult] = useState<MatchResult | null>(null)
+  const [hillRelocateSec, setHillRelocateSec] = useState(45)
+  const [lives, setLives] = useState(3)
+  const [roundCount, setRoundCount] = useState(3)
+  const [spectating, setSpectating] = useState(false)
+  // spectator camera target; null is the free overview of the whole arena
+  const [followId, setFollowId] = useState<string | null>(null)
   const [connection, setConnection] = useState<ReturnType<typeof connectSocket> | null>(null)
   const canvasRef = useRef<HTMLCanvasElement | null>(null)
   const fxRef = useRef<Map<string, FxState>>(new Map())
   const interpolatorRef = useRef(createSnapshotInterpolator())
+  const killcamRef = useRef(createKillcam())
+  const killcamEnabledRef = useRef(true)
+  const followIdRef = useRef<string | null>(null)
   const chatInputRef = useRef<HTMLInputElement | null>(null)
+  const passwordInputRef = useRef<HTMLInputElement | null>(null)
   const chatOpenRef = useRef(false)
   const chatScrollRef = useRef<HTMLDivElement | null>(null)
   const resetKeysRef = useRef(new Subject<void>())
@@ -74,6 +189,7 @@ function App() {
   const strikeTimeoutRef = useRef<number | null>(null)
   const portalPlacingRef = useRef(false)
   const portalTimeoutRef = useRef<number | null>(null)
+  const rttRef = useRef<number | undefined>(undefined)
 
   useEffect(() => {
     const conn = connectSocket()
@@ -85,6 +201,12 @@ function App() {
 
   useEffect(() => {
     if (!connection) return
+    // once in a room the invite is spent or no longer needed; keep it out of the address bar
+    const clearInvite = () => {
+      setInvite(null)
+      setInviteToken('')
+      if (window.location.search) window.history.replaceState(null, '', window.location.pathname)
+    }
     const subs = new Subscription()
 
     subs.add(
@@ -92,29 +214,100 @@ function App() {
         if (event.type === 'room:created' || event.type === 'room:joined') {
           setRoomInfo({ roomId: event.payload.roomId, playerId: event.payload.playerId })
           setRoomId(event.payload.roomId)
+          clearInvite()
           setError(null)
           setChatMessages([])
+          setMutedIds([])
+          setMatchResult(null)
+          setSpectating(false)
+        } else if (event.type === 'room:spectating') {
+          setRoomInfo({ roomId: event.payload.roomId, playerId: event.payload.spectatorId })
+          setRoomId(event.payload.roomId)
+          clearInvite()
+          setError(null)
+          setChatMessages([])
+          setMutedIds([])
+          setMatchResult(null)
+          setSpectating(true)
+          setFollowId(null)
+        } else if (event.type === 'invite:created') {
+          setInvite(event.payload)
         } else if (event.type === 'rooms:list') {
           setRooms(event.payload.rooms)
         } else if (event.type === 'error') {
+          if (event.payload.code === 'version_mismatch') {
+            setOutdated(event.payload.message)
+            return
+          }
+          if (
+            event.payload.code === 'resume_failed' ||
+            event.payload.code === 'kicked' ||
+            event.payload.code === 'banned' ||
+            event.payload.code === 'room_closed'
+          ) {
+            setRoomInfo(null)
+            setSnapshot(null)
+          } else if (event.payload.code === 'rate_limited' || event.payload.code === 'chat_muted') {
+            setToast(event.payload.message)
+          } else if (event.payload.code === 'password_required') {
+            passwordInputRef.current?.focus()
+          } else if (event.payload.code === 'wrong_password') {
+            setRoomPassword('')
+            passwordInputRef.current?.focus()
+          } else if (event.payload.code === 'invalid_invite') {
+            // the room may still take a password instead
+            clearInvite()
+          }
           setError(event.payload.message)
+        } else if (event.type === 'connection') {
+          setReconnecting(event.payload.status === 'reconnecting')
         } else if (event.type === 'net:pong') {
-          setPingMs(Date.now() - event.payload.t)
+          rttRef.current = Date.now() - event.payload.t
+          setPingMs(rttRef.current)
         } else if (event.type === 'chat:history') {
           setChatMessages(event.payload.messages.slice(-200))
+        } else if (event.type === 'chat:muted') {
+          setMutedIds(event.payload.playerIds)
         } else if (event.type === 'chat:message') {
           setChatMessages((prev) => [...prev, event.payload].slice(-200))
         } else if (event.type === 'match:toast') {
           setToast(event.payload.message)
+        } else if (event.type === 'match:ended') {
+          setMatchResult(event.payload)
+        } else if (event.type === 'anticheat:report') {
+          setSuspicion(
+            Object.fromEntries(
+              event.payload.players.map((report) => [report.playerId, report.score]),
+            ),
+          )
         }
       }),
     )
 
-    subs.add(interval(1000).subscribe(() => connection.send.ping({ t: Date.now() })))
+    subs.add(
+      interval(1000).subscribe(() =>
+        connection.send.ping({ t: Date.now(), rttMs: rttRef.current }),
+      ),
+    )
 
     return () => subs.unsubscribe()
   }, [connection])
 
+  useEffect(() => {
+    if (roomInfo) return
+    let cancelled = false
+    fetchReplays(adminToken)
+      .then((list) => {
+        if (!cancelled) setReplays(list)
+      })
+      .catch(() => {
+        if (!cancelled) setReplays([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [roomInfo, adminToken])
+
   useEffect(() => {
     if (!connection || !roomInfo) return
     const canvas = canvasRef.current
@@ -124,10 +317,33 @@ function App() {
 
     const state$ = connection.wsIn$.pipe(
       filter((event) => event.type === 'game:state'),
-      map((event) => event.payload),
+      map((event) => {
+        const rebuilt = interpolatorRef.current.applyDelta(event.payload)
+        if (rebuilt) connection.send.ackState({ id: event.payload.id })
+        return rebuilt
+      }),
+      filter((rebuilt): rebuilt is StateSnapshot => rebuilt !== null),
       shareReplay({ bufferSize: 1, refCount: true }),
     )
 
+    const predictor =
+      !spectating && connection.hasFeature('prediction') ? createLocalPredictor() : null
+    // eliminated players watch the chosen survivor, or the first one standing
+    const eliminatedCamera = (state: StateSnapshot) => {
+      const me = state.players.find((player) => player.id === roomInfo.playerId)
+      if (!me || me.lives !== 0 || me.alive) return undefined
+      const target =
+        state.players.find((player) => player.id === followIdRef.current && player.alive) ??
+        state.players.find((player) => player.alive && !player.isEcho)
+      return target ? cameraFollowing(state, target.id, SPECTATOR_ZOOM) : undefined
+    }
+    const spectatorCamera = (state: StateSnapshot) => {
+      if (!spectating) return eliminatedCamera(state)
+      const targetId = followIdRef.current
+      if (!targetId) return undefined
+      if (!state.players.some((player) => player.id === targetId)) return undefined
+      return cameraFollowing(state, targetId, SPECTATOR_ZOOM)
+    }
     const subs = new Subscription()
     subs.add(
       state$.subscribe((nextSnapshot) => {
@@ -153,6 +369,14 @@ function App() {
               startedAt: now,
               explodeAt: now + event.etaMs,
             })
+          } else if (
+            event.type === 'death' &&
+            event.id === roomInfo.playerId &&
+            event.byRootId &&
+            event.byRootId !== event.id &&
+            killcamEnabledRef.current
+          ) {
+            killcamRef.current.request(event.id, event.byRootId, now)
           } else if (event.type === 'strike_boom') {
             strikeBoomsRef.current.push({
               x: event.x,
@@ -165,22 +389,50 @@ function App() {
             )
           }
         })
+        if (nextSnapshot.players.find((player) => player.id === roomInfo.playerId)?.alive) {
+          killcamRef.current.cancel()
+        }
         interpolatorRef.current.pushSnapshot(nextSnapshot, performance.now())
+        predictor?.reconcile(nextSnapshot)
         setSnapshot(nextSnapshot)
       }),
     )
-    subs.add(
-      createInputPackets(canvas, {
-        isChatActive: () => chatOpenRef.current,
-        isShootEnabled: () => !strikeTargetingRef.current && !portalPlacingRef.current,
-        resetKeys$: resetKeysRef.current,
-      }).subscribe((packet) => connection.send.input(packet)),
-    )
+    if (!spectating) {
+      subs.add(
+        createInputPackets(canvas, {
+          isChatActive: () => chatOpenRef.current,
+          isShootEnabled: () => !strikeTargetingRef.current && !portalPlacingRef.current,
+          resetKeys$: resetKeysRef.current,
+          getViewTime: () => interpolatorRef.current.getRenderTimeServer(performance.now()),
+        }).subscribe((packet) => {
+          predictor?.applyInput(packet)
+          connection.send.input(packet)
+        }),
+      )
+    }
     subs.add(
       animationFrames()
         .pipe(withLatestFrom(state$))
         .subscribe(([frame, latest]) => {
           const renderState = interpolatorRef.current.getInterpolatedState(frame.timestamp)
+          if (renderState) killcamRef.current.record(renderState, frame.timestamp)
+          const killcamFrame = killcamRef.current.frameAt(frame.timestamp)
+          if (killcamFrame) {
+            renderSnapshot(
+              ctx,
+              killcamFrame.snapshot,
+              fxRef.current,
+              frame.timestamp,
+              [],
+              [],
+              [],
+              [],
+              undefined,
+              undefined,
+              killcamFrame.view,
+            )
+            return
+          }
           beamsRef.current = beamsRef.current.filter((beam) => beam.until > frame.timestamp)
           novasRef.current = novasRef.current.filter((nova) => nova.until > frame.timestamp)
           strikeMarksRef.current = strikeMarksRef.current.filter(
@@ -206,7 +458,7 @@ function App() {
           if (renderState) {
             renderSnapshot(
               ctx,
-              renderState,
+              predictor ? predictor.applyToSnapshot(renderState) : renderState,
               fxRef.current,
               frame.timestamp,
               beamsRef.current,
@@ -215,11 +467,13 @@ function App() {
               strikeBoomsRef.current,
               strikePreview,
               portalPreview,
+              undefined,
+              spectatorCamera(renderState),
             )
           } else {
             renderSnapshot(
               ctx,
-              latest,
+              predictor ? predictor.applyToSnapshot(latest) : latest,
               fxRef.current,
               frame.timestamp,
               beamsRef.current,
@@ -228,20 +482,32 @@ function App() {
               strikeBoomsRef.current,
               strikePreview,
               portalPreview,
+              undefined,
+              spectatorCamera(latest),
             )
           }
         }),
     )
 
     return () => subs.unsubscribe()
-  }, [connection, roomInfo])
+  }, [connection, roomInfo, spectating])
 
   const canCreate = name.trim().length > 0
   const canJoin = canCreate && roomId.trim().length > 0
   const maxBotCount = Math.max(0, maxPlayers - 1)
+  const usesTeamSettings = mode === 'tdm' || mode === 'ctf' || mode === 'koth'
+  const hasTeams = usesTeamSettings && !(mode === 'koth' && teamCount === 0)
+  // survival puts every human on one side against the bots
+  const hasAllies = hasTeams || mode === 'survival'
 
   const localPlayer = snapshot?.players.find((player) => player.id === roomInfo?.playerId)
-  const realPlayers = snapshot?.players.filter((player) => !player.isEcho) ?? []
+  const isEliminated = localPlayer?.lives === 0 && !localPlayer.alive
+  const teamOrder = (team: TeamId | undefined) => (team ? TEAM_IDS.indexOf(team) : -1)
+  // survival waves would swamp the scoreboard; they are counted in the HUD instead
+  const realPlayers =
+    snapshot?.players
+      .filter((player) => !player.isEcho && !player.archetype)
+      .sort((a, b) => teamOrder(a.team) - teamOrder(b.team)) ?? []
   const hasActiveEcho = (playerId: string) =>
     snapshot?.players.some((player) => player.isEcho && player.ownerId === playerId) ?? false
   const heldItem = localPlayer?.heldItem ?? null
@@ -251,6 +517,22 @@ function App() {
   const isHost = match?.hostId === roomInfo?.playerId
   const hostName =
     snapshot?.players.find((player) => player.id === match?.hostId)?.name ?? 'Unknown'
+  const hill = snapshot?.zones.find((zone) => zone.kind === 'control')
+  const hillOwnerName = hill?.ownerId
+    ? match?.teams?.some((team) => team.id === hill.ownerId)
+      ? `${teamLabel(hill.ownerId as TeamId)} team`
+      : snapshot?.players.find((player) => player.id === hill.ownerId)?.name ?? 'Unknown'
+    : 'Neutral'
+  const followedName = realPlayers.find((player) => player.id === followId)?.name ?? null
+  const playerName = (playerId: string) =>
+    snapshot?.players.find((player) => player.id === playerId)?.name ?? 'Unknown'
+  const wave = match?.wave
+  const waveSecLeft =
+    wave && snapshot ? Math.max(0, Math.ceil((wave.nextAtMs - snapshot.t) / 1000)) : 0
+  const countdownSecLeft =
+    match?.startsAtMs && snapshot
+      ? Math.max(1, Math.ceil((match.startsAtMs - snapshot.t) / 1000))
+      : null
   const timeLeftSec = match?.endsAtMs
     ? Math.max(0, Math.ceil((match.endsAtMs - Date.now()) / 1000))
     : null
@@ -304,6 +586,28 @@ function App() {
     }
   }, [chatMessages.length])
 
+  useEffect(() => {
+    followIdRef.current = followId
+  }, [followId])
+
+  const cycleFollow = (direction: 1 | -1) => {
+    const ids = realPlayers.map((player) => player.id)
+    if (ids.length === 0) return
+    const index = followId ? ids.indexOf(followId) : -1
+    const next =
+      index === -1
+        ? direction === 1
+          ? 0
+          : ids.length - 1
+        : (index + direction + ids.length) % ids.length
+    setFollowId(ids[next])
+  }
+
+  useEffect(() => {
+    killcamEnabledRef.current = killcamEnabled
+    if (!killcamEnabled) killcamRef.current.cancel()
+  }, [killcamEnabled])
+
   useEffect(() => {
     if (!match) return
     setDurationSec(match.durationSec)
@@ -386,12 +690,25 @@ function App() {
     closeChat()
   }
 
+  const handleModeChange = (value: GameMode) => {
+    setMode(value)
+    if (value !== 'ffa') setScoreLimit(DEFAULT_SCORE_LIMITS[value])
+    // koth defaults to every pilot for themselves
+    if (value === 'koth') setTeamCount(0)
+    else if (teamCount < 2) setTeamCount(2)
+  }
+
   const handleDurationChange = (value: number) => {
     setDurationSec(value)
     if (!connection) return
     connection.send.configureMatch({ durationSec: value })
   }
 
+  const handleWinSettingsChange = (changes: Omit<MatchSettings, 'durationSec'>) => {
+    if (!connection) return
+    connection.send.configureMatch({ durationSec, ...changes })
+  }
+
   useEffect(() => {
     if (!roomInfo) return
     const canvas = canvasRef.current
@@ -438,12 +755,36 @@ function App() {
 
   return (
     <div className="app">
-      {!roomInfo ? (
+      {outdated ? (
+        <section className="lobby">
+          <div className="lobby-header">
+            <p className="kicker">Multiverse Arena</p>
+            <h1>New version available</h1>
+            <p className="subtle">{outdated} Please refresh the page.</p>
+          </div>
+          <div className="lobby-actions">
+            <button type="button" onClick={() => window.location.reload()}>
+              Refresh
+            </button>
+          </div>
+        </section>
+      ) : watchingReplayId && !roomInfo ? (
+        <ReplayViewer
+          replayId={watchingReplayId}
+          adminToken={adminToken}
+          onClose={() => setWatchingReplayId(null)}
+        />
+      ) : !roomInfo ? (
         <section className="lobby">
           <div className="lobby-header">
             <p className="kicker">Multiverse Arena</p>
             <h1>Portal Echo Skirmish</h1>
             <p className="subtle">Create a room or join a squad by room id.</p>
+            {inviteToken ? (
+              <p className="invite-note">
+                You were invited to room {roomId}. Pick a name and join.
+              </p>
+            ) : null}
           </div>
 
           <div className="lobby-form">
@@ -463,6 +804,17 @@ function App() {
                 placeholder="ABCD"
               />
             </label>
+            <label className="field">
+              <span>Password</span>
+              <input
+                ref={passwordInputRef}
+                type="password"
+                value={roomPassword}
+                onChange={(event) => setRoomPassword(event.target.value)}
+                placeholder="Optional"
+                maxLength={64}
+              />
+            </label>
             <label className="field">
               <span>Max players</span>
               <select
@@ -486,6 +838,111 @@ function App() {
                 onChange={(event) => setMaxHp(Number(event.target.value))}
               />
             </label>
+            <label className="field">
+              <span>Spectator slots</span>
+              <select
+                value={maxSpectators}
+                onChange={(event) => setMaxSpectators(Number(event.target.value))}
+              >
+                {Array.from({ length: 17 }, (_, index) => index).map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field">
+              <span>Mode</span>
+              <select
+                value={mode}
+                onChange={(event) => handleModeChange(event.target.value as GameMode)}
+              >
+                {GAME_MODES.map((value) => (
+                  <option key={value} value={value}>
+                    {MODE_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field">
+              <span>Teams</span>
+              <select
+                value={teamCount}
+                onChange={(event) => setTeamCount(Number(event.target.value))}
+                disabled={!usesTeamSettings}
+              >
+                {mode === 'koth' ? <option value={0}>None</option> : null}
+                {Array.from({ length: TEAM_IDS.length - 1 }, (_, index) => index + 2).map(
+                  (value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ),
+                )}
+              </select>
+            </label>
+            <label className="field">
+              <span>Hill moves every</span>
+              <select
+                value={hillRelocateSec}
+                onChange={(event) => setHillRelocateSec(Number(event.target.value))}
+                disabled={mode !== 'koth'}
+              >
+                {HILL_RELOCATE_OPTIONS.map((value) => (
+                  <option key={value} value={value}>
+                    {value}s
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field">
+              <span>{SCORE_LIMIT_LABELS[mode]}</span>
+              <input
+                type="number"
+                min={0}
+                max={500}
+                value={scoreLimit}
+                onChange={(event) => setScoreLimit(Number(event.target.value))}
+                disabled={mode === 'lms' || mode === 'survival'}
+              />
+            </label>
+            <label className="field">
+              <span>{mode === 'survival' ? 'Team lives per pilot' : 'Lives'}</span>
+              <select
+                value={lives}
+                onChange={(event) => setLives(Number(event.target.value))}
+                disabled={mode !== 'lms' && mode !== 'survival'}
+              >
+                {LIVES_OPTIONS.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field">
+              <span>Rounds</span>
+              <select
+                value={roundCount}
+                onChange={(event) => setRoundCount(Number(event.target.value))}
+                disabled={mode !== 'lms'}
+              >
+                {ROUND_COUNT_OPTIONS.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field checkbox">
+              <input
+                type="checkbox"
+                checked={friendlyFire}
+                onChange={(event) => setFriendlyFire(event.target.checked)}
+                disabled={!hasAllies}
+              />
+              <span>Friendly fire</span>
+            </label>
             <label className="field checkbox">
               <input
                 type="checkbox"
@@ -502,6 +959,14 @@ function App() {
               />
               <span>Fill with bots</span>
             </label>
+            <label className="field checkbox">
+              <input
+                type="checkbox"
+                checked={killcamEnabled}
+                onChange={(event) => setKillcamEnabled(event.target.checked)}
+              />
+              <span>Show killcam</span>
+            </label>
             <label className="field">
               <span>Bot count</span>
               <select
@@ -543,6 +1008,15 @@ function App() {
                   botCount: fillWithBots ? botCount : 0,
                   botDifficulty,
                   maxHp,
+                  maxSpectators,
+                  mode,
+                  teamCount,
+                  friendlyFire,
+                  scoreLimit,
+                  hillRelocateSec,
+                  lives,
+                  roundCount,
+                  password: roomPassword || undefined,
                 })
               }
             >
@@ -552,7 +1026,12 @@ function App() {
               className="ghost"
               disabled={!canJoin || !connection}
               onClick={() =>
-                connection?.send.joinRoom({ roomId: roomId.trim(), name: name.trim() })
+                connection?.send.joinRoom({
+                  roomId: roomId.trim(),
+                  name: name.trim(),
+                  password: roomPassword || undefined,
+                  invite: inviteToken || undefined,
+                })
               }
             >
               Join Room
@@ -574,9 +1053,12 @@ function App() {
                       <p className="room-id">{room.roomId}</p>
                       <p className="room-meta">
                         {room.playerCount}/{room.maxPlayers} pilots
+                        {room.mode !== 'ffa' ? ` · ${MODE_LABELS[room.mode]}` : ''}
+                        {room.hasPassword ? ' · 🔒 Password' : ''}
                         {room.fillWithBots
                           ? ` · Bots: ${room.botCount} (${room.botDifficulty})`
                           : ''}
+                        {room.spectatorCount > 0 ? ` · ${room.spectatorCount} watching` : ''}
                         {/*{room.maxHp ? ` · HP ${room.maxHp}` : ''}*/}
                       </p>
                     </div>
@@ -584,17 +1066,74 @@ function App() {
                       className="ghost"
                       disabled={!canCreate || !connection || room.playerCount >= room.maxPlayers}
                       onClick={() =>
-                        connection?.send.joinRoom({ roomId: room.roomId, name: name.trim() })
+                        connection?.send.joinRoom({
+                          roomId: room.roomId,
+                          name: name.trim(),
+                          password: roomPassword || undefined,
+                        })
                       }
                     >
                       Join
                     </button>
+                    <button
+                      className="ghost"
+                      disabled={!connection || room.spectatorCount >= room.maxSpectators}
+                      onClick={() =>
+                        connection?.send.spectateRoom({
+                          roomId: room.roomId,
+                          name: name.trim(),
+                          password: roomPassword || undefined,
+                        })
+                      }
+                    >
+                      Watch
+                    </button>
                   </div>
                 ))}
               </div>
             )}
           </div>
 
+          <div className="room-list">
+            <div className="room-list-header">
+              <h2>Match Replays</h2>
+              <span className="subtle">
+                {adminToken ? `${replays.length} recorded` : 'Admins only'}
+              </span>
+            </div>
+            <label className="field">
+              <span>Admin token</span>
+              <input
+                type="password"
+                value={adminToken}
+                onChange={(event) => {
+                  setAdminToken(event.target.value)
+                  saveAdminToken(event.target.value)
+                }}
+                placeholder="Needed to list replays"
+              />
+            </label>
+            {replays.length > 0 ? (
+              <div className="room-list-body">
+                {replays.map((replay) => (
+                  <div key={replay.id} className="room-row">
+                    <div>
+                      <p className="room-id">{replay.roomId}</p>
+                      <p className="room-meta">{new Date(replay.startedAtMs).toLocaleString()}</p>
+                    </div>
+                    <button
+                      className="ghost"
+                      type="button"
+                      onClick={() => setWatchingReplayId(replay.id)}
+                    >
+                      Watch
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+          </div>
+
           {error ? <p className="error">{error}</p> : null}
         </section>
       ) : (
@@ -608,28 +1147,45 @@ function App() {
               <p className="hud-label">Ping</p>
               <p className="hud-value">{pingMs !== null ? `${pingMs}ms` : '...'}</p>
             </div>
-            <div>
-              <p className="hud-label">HP</p>
-              <p className="hud-value">
-                {localPlayer ? `${localPlayer.hp}/${localMaxHp}` : '...'}
-              </p>
-            </div>
-            <div>
-              <p className="hud-label">Status</p>
-              <p className="hud-value">{localPlayer?.alive ? 'Alive' : 'Down'}</p>
-            </div>
-            <div>
-              <p className="hud-label">Held Item</p>
-              <p className="hud-value">{heldItem ?? 'None'}</p>
-            </div>
-            <div>
-              <p className="hud-label">Shield</p>
-              <p className="hud-value">{shieldHp > 0 ? `${shieldHp} HP` : 'None'}</p>
-            </div>
-            <div>
-              <p className="hud-label">Ability</p>
-              <p className="hud-value">Press Q to use</p>
-            </div>
+            {spectating ? (
+              <div>
+                <p className="hud-label">Spectating</p>
+                <p className="hud-value">{followedName ?? 'Free cam'}</p>
+              </div>
+            ) : (
+              <>
+                <div>
+                  <p className="hud-label">HP</p>
+                  <p className="hud-value">
+                    {localPlayer ? `${localPlayer.hp}/${localMaxHp}` : '...'}
+                  </p>
+                </div>
+                <div>
+                  <p className="hud-label">Status</p>
+                  <p className="hud-value">
+                    {localPlayer?.alive ? 'Alive' : isEliminated ? 'Out' : 'Down'}
+                  </p>
+                </div>
+                {localPlayer?.lives !== undefined ? (
+                  <div>
+                    <p className="hud-label">Lives</p>
+                    <p className="hud-value">{localPlayer.lives}</p>
+                  </div>
+                ) : null}
+                <div>
+                  <p className="hud-label">Held Item</p>
+                  <p className="hud-value">{heldItem ?? 'None'}</p>
+                </div>
+                <div>
+                  <p className="hud-label">Shield</p>
+                  <p className="hud-value">{shieldHp > 0 ? `${shieldHp} HP` : 'None'}</p>
+                </div>
+                <div>
+                  <p className="hud-label">Ability</p>
+                  <p className="hud-value">Press Q to use</p>
+                </div>
+              </>
+            )}
             <div>
               <p className="hud-label">Phase</p>
               <p className="hud-value">{match?.phase ?? '...'}</p>
@@ -638,12 +1194,64 @@ function App() {
               <p className="hud-label">Host</p>
               <p className="hud-value">{hostName}</p>
             </div>
+            {match?.teams ? (
+              <div>
+                <p className="hud-label">
+                  Teams{match.scoreLimit ? ` (first to ${match.scoreLimit})` : ''}
+                </p>
+                <p className="hud-value team-scores">
+                  {match.teams.map((team) => (
+                    <span key={team.id} style={{ color: TEAM_COLORS[team.id] }}>
+                      {teamLabel(team.id)} {team.score}
+                    </span>
+                  ))}
+                </p>
+              </div>
+            ) : null}
+            {match?.round ? (
+              <div>
+                <p className="hud-label">Round</p>
+                <p className="hud-value">
+                  {match.round}/{match.roundCount ?? match.round}
+                </p>
+              </div>
+            ) : null}
+            {wave ? (
+              <>
+                <div>
+                  <p className="hud-label">Wave</p>
+                  <p className="hud-value">
+                    {match?.phase === 'ended'
+                      ? `Reached wave ${wave.number}`
+                      : wave.phase === 'intermission'
+                        ? `${wave.number + 1} in ${waveSecLeft}s`
+                        : `${wave.number} · ${wave.enemiesLeft} left · ${waveSecLeft}s`}
+                  </p>
+                </div>
+                <div>
+                  <p className="hud-label">Team lives</p>
+                  <p className="hud-value">{wave.livesLeft}</p>
+                </div>
+              </>
+            ) : null}
+            {hill ? (
+              <div>
+                <p className="hud-label">Hill</p>
+                <p className="hud-value">{hill.contested ? 'Contested' : hillOwnerName}</p>
+              </div>
+            ) : null}
             <div>
               <p className="hud-label">Timer</p>
               <p className="hud-value">
-                {match?.phase === 'playing'
-                  ? `${timeLeftSec ?? 0}s`
-                  : `${durationSec}s`}
+                {match?.phase === 'countdown' && countdownSecLeft !== null
+                  ? `Starts in ${countdownSecLeft}s`
+                  : match?.phase === 'playing'
+                    ? match.overtime
+                      ? 'Overtime'
+                      : timeLeftSec === null
+                        ? 'None'
+                        : `${timeLeftSec}s`
+                    : `${durationSec}s`}
               </p>
             </div>
           </header>
@@ -658,6 +1266,27 @@ function App() {
             {portalPlacing ? (
               <div className="strike-hint">Click to place portal B</div>
             ) : null}
+            {isEliminated ? <div className="strike-hint">Eliminated · spectating</div> : null}
+            {match?.phase === 'ended' && matchResult ? (
+              <MatchResults result={matchResult} playerId={roomInfo.playerId} isHost={isHost} />
+            ) : null}
+            {spectating || isEliminated ? (
+              <div className="spectator-controls">
+                <button className="ghost" type="button" onClick={() => cycleFollow(-1)}>
+                  Prev
+                </button>
+                <button
+                  className={followId ? 'ghost' : 'primary'}
+                  type="button"
+                  onClick={() => setFollowId(null)}
+                >
+                  Free cam
+                </button>
+                <button className="ghost" type="button" onClick={() => cycleFollow(1)}>
+                  Next
+                </button>
+              </div>
+            ) : null}
           </div>
 
           <aside className="scoreboard-panel">
@@ -670,7 +1299,7 @@ function App() {
                       <select
                         value={durationSec}
                         onChange={(event) => handleDurationChange(Number(event.target.value))}
-                        disabled={match?.phase !== 'lobby'}
+                        disabled={match?.phase !== 'lobby' || match.winCondition === 'score'}
                       >
                         {Array.from({ length: 15 }, (_, index) => (index + 1) * 60).map((value) => (
                           <option key={value} value={value}>
@@ -679,6 +1308,88 @@ function App() {
                         ))}
                       </select>
                     </label>
+                    {match && match.mode !== 'lms' && match.mode !== 'survival' ? (
+                      <>
+                        <label className="match-field">
+                          <span>Win condition</span>
+                          <select
+                            value={match.winCondition}
+                            onChange={(event) =>
+                              handleWinSettingsChange({
+                                winCondition: event.target.value as WinCondition,
+                              })
+                            }
+                            disabled={match.phase !== 'lobby'}
+                          >
+                            {(Object.keys(WIN_CONDITION_LABELS) as WinCondition[]).map((value) => (
+                              <option key={value} value={value}>
+                                {WIN_CONDITION_LABELS[value]}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="match-field">
+                          <span>{SCORE_LIMIT_LABELS[match.mode]}</span>
+                          <input
+                            type="number"
+                            min={0}
+                            max={500}
+                            value={match.scoreLimit ?? 0}
+                            onChange={(event) =>
+                              handleWinSettingsChange({ scoreLimit: Number(event.target.value) })
+                            }
+                            disabled={match.phase !== 'lobby' || match.winCondition === 'time'}
+                          />
+                        </label>
+                        <label className="match-field">
+                          <span>Win by</span>
+                          <select
+                            value={Math.max(1, match.leadMargin ?? 0)}
+                            onChange={(event) =>
+                              handleWinSettingsChange({ leadMargin: Number(event.target.value) })
+                            }
+                            disabled={match.phase !== 'lobby' || match.winCondition === 'time'}
+                          >
+                            {LEAD_MARGIN_OPTIONS.map((value) => (
+                              <option key={value} value={value}>
+                                {value === 1 ? 'Any lead' : `${value}+`}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      </>
+                    ) : null}
+                    {match ? (
+                      <>
+                        <label className="match-field">
+                          <span>Countdown</span>
+                          <select
+                            value={match.countdownSec}
+                            onChange={(event) =>
+                              handleWinSettingsChange({ countdownSec: Number(event.target.value) })
+                            }
+                            disabled={match.phase !== 'lobby'}
+                          >
+                            {COUNTDOWN_OPTIONS.map((value) => (
+                              <option key={value} value={value}>
+                                {value}s
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="match-field checkbox">
+                          <input
+                            type="checkbox"
+                            checked={!!match.autoStart}
+                            onChange={(event) =>
+                              handleWinSettingsChange({ autoStart: event.target.checked })
+                            }
+                            disabled={match.phase !== 'lobby'}
+                          />
+                          <span>Start when all pilots are ready</span>
+                        </label>
+                      </>
+                    ) : null}
                     <div className="match-buttons">
                       {match?.phase === 'lobby' ? (
                         <button
@@ -698,10 +1409,72 @@ function App() {
                         </button>
                       )}
                     </div>
+                    <div className="invite-controls">
+                      <label className="match-field">
+                        <span>Invite link</span>
+                        <select
+                          value={inviteChoice}
+                          onChange={(event) => setInviteChoice(Number(event.target.value))}
+                        >
+                          {INVITE_CHOICES.map((choice, index) => (
+                            <option key={choice.label} value={index}>
+                              {choice.label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <button
+                        className="ghost"
+                        type="button"
+                        onClick={() =>
+                          connection?.send.createInvite(INVITE_CHOICES[inviteChoice].options)
+                        }
+                      >
+                        Create link
+                      </button>
+                      {invite ? (
+                        <>
+                          <input
+                            className="invite-link"
+                            readOnly
+                            value={inviteLink(invite)}
+                            onFocus={(event) => event.target.select()}
+                          />
+                          <button
+                            className="ghost"
+                            type="button"
+                            onClick={() =>
+                              navigator.clipboard.writeText(inviteLink(invite)).then(
+                                () => setToast('Invite link copied'),
+                                () => setToast('Could not copy the link'),
+                              )
+                            }
+                          >
+                            Copy
+                          </button>
+                          <span className="subtle">
+                            {invite.singleUse
+                              ? 'Works once'
+                              : invite.expiresAtMs
+                                ? `Expires ${new Date(invite.expiresAtMs).toLocaleString()}`
+                                : 'Works until the room closes'}
+                          </span>
+                        </>
+                      ) : null}
+                    </div>
                   </>
                 ) : (
                   <p className="subtle">Waiting for host...</p>
                 )}
+                {match?.phase === 'lobby' && localPlayer ? (
+                  <button
+                    className={localPlayer.ready ? 'primary' : 'ghost'}
+                    type="button"
+                    onClick={() => connection?.send.setReady({ ready: !localPlayer.ready })}
+                  >
+                    {localPlayer.ready ? 'Ready ✓' : 'Ready up'}
+                  </button>
+                ) : null}
               </div>
             ) : null}
             <div className="scoreboard">
@@ -715,15 +1488,66 @@ function App() {
                   <div className="score-name">
                       <span
                         className={player.id === roomInfo.playerId ? 'you-tag' : undefined}
-                        style={{ color: colorFromId(colorIdForPlayer(player)) }}
+                        style={{ color: colorForPlayer(player) }}
                       >
                         {player.name}
+                        {player.team ? ` [${teamLabel(player.team)}]` : ''}
                         {player.isBot ? ' (BOT)' : ''}
                         {hasActiveEcho(player.id) ? ' (Echo)' : ''}
                       </span>
+                      {match?.phase === 'lobby' && player.ready !== undefined ? (
+                        <span className={player.ready ? 'score-ready is-ready' : 'score-ready'}>
+                          {player.ready ? 'Ready' : 'Not ready'}
+                        </span>
+                      ) : null}
+                      {isHost && (suspicion[player.id] ?? 0) >= 1 ? (
+                        <span className="score-suspicion" title="Anti-cheat suspicion score">
+                          ⚠ {suspicion[player.id].toFixed(1)}
+                        </span>
+                      ) : null}
+                      {mutedIds.includes(player.id) ? (
+                        <span className="score-muted" title="Muted by the host">
+                          Muted
+                        </span>
+                      ) : null}
+                      {isHost && !player.isBot && player.id !== roomInfo.playerId ? (
+                        <span className="score-actions">
+                          <button
+                            className="ghost"
+                            onClick={() =>
+                              connection?.send.mutePlayer({
+                                playerId: player.id,
+                                muted: !mutedIds.includes(player.id),
+                              })
+                            }
+                          >
+                            {mutedIds.includes(player.id) ? 'Unmute' : 'Mute'}
+                          </button>
+                          <button
+                            className="ghost"
+                            onClick={() => connection?.send.kickPlayer({ playerId: player.id })}
+                          >
+                            Kick
+                          </button>
+                          <button
+                            className="ghost"
+                            onClick={() => connection?.send.banPlayer({ playerId: player.id })}
+                          >
+                            Ban
+                          </button>
+                        </span>
+                      ) : null}
                     </div>
                     <div className="score-kd">
                       {player.kills}/{player.deaths}
+                      {player.score !== undefined ? (
+                        <span className="score-hp">{player.score} pts</span>
+                      ) : null}
+                      {player.lives !== undefined ? (
+                        <span className="score-hp">
+                          {player.lives === 0 && !player.alive ? 'Out' : `${player.lives} lives`}
+                        </span>
+                      ) : null}
                       <span className="score-hp">
                         HP {player.hp}/{player.maxHp}
                       </span>
@@ -731,22 +1555,38 @@ function App() {
                   </div>
                 ))}
               </div>
+              {match?.roundWinners?.length ? (
+                <div className="round-list">
+                  {match.roundWinners.map((winnerId, index) => (
+                    <div key={index} className="round-row">
+                      <span className="subtle">Round {index + 1}</span>
+                      <span>{winnerId ? playerName(winnerId) : 'No survivor'}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
             </div>
 
             <div className="chat-panel">
               <div className="chat-messages" ref={chatScrollRef}>
-                {chatMessages.map((message) => (
-                  <div key={message.id} className="chat-line">
-                    <span
-                      className="chat-name"
-                      style={{ color: colorFromId(message.fromId) }}
-                    >
-                      {message.fromName}
-                    </span>
-                    <span className="chat-sep">:</span>
-                    <span className="chat-text">{message.text}</span>
-                  </div>
-                ))}
+                {chatMessages.map((message) =>
+                  message.system ? (
+                    <div key={message.id} className="chat-line chat-system">
+                      {message.text}
+                    </div>
+                  ) : (
+                    <div key={message.id} className="chat-line">
+                      {message.channel === 'spectators' ? (
+                        <span className="chat-spectator">[SPEC]</span>
+                      ) : null}
+                      <span className="chat-name" style={{ color: colorFromId(message.fromId) }}>
+                        {message.fromName}
+                      </span>
+                      <span className="chat-sep">:</span>
+                      <span className="chat-text">{message.text}</span>
+                    </div>
+                  ),
+                )}
               </div>
               <div className="chat-input">
                 {chatOpen ? (
@@ -780,6 +1620,7 @@ function App() {
           </aside>
 
           {toast ? <div className="toast">{toast}</div> : null}
+          {reconnecting ? <div className="reconnecting">Reconnecting...</div> : null}
         </section>
       )}
     </div>
@@ -787,5 +1628,3 @@ function App() {
 }
 
 export default App
-  const colorIdForPlayer = (player: StateSnapshot['players'][number]) =>
-    player.isEcho ? player.ownerId ?? player.id : player.id
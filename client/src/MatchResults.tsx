@@ -0,0 +1,91 @@
+import type { MatchEndReason, MatchResult, PlayerMatchStats } from '@shared/protocol'
+
+const END_REASON_LABELS: Record<MatchEndReason, string> = {
+  score_limit: 'Reached the score limit',
+  time_limit: 'Led when time ran out',
+  overtime: 'Won in sudden death',
+  rounds: 'Won the most rounds',
+  overrun: 'The team was overrun',
+}
+
+type MatchResultsProps = {
+  result: MatchResult
+  playerId: string
+  isHost: boolean
+}
+
+const headline = ({ winners, reason }: MatchResult) => {
+  if (winners.length === 0) return reason === 'overrun' ? 'No winner' : 'Draw'
+  const names = winners.map((winner) => winner.name).join(', ')
+  return `${names} ${winners.length > 1 ? 'win' : 'wins'}`
+}
+
+const abilityBreakdown = (stats: PlayerMatchStats) =>
+  Object.entries(stats.abilityUses)
+    .map(([type, count]) => `${type} ×${count}`)
+    .join(', ')
+
+const abilityTotal = (stats: PlayerMatchStats) =>
+  Object.values(stats.abilityUses).reduce((sum, count) => sum + (count ?? 0), 0)
+
+// shown while the match is over, until the host takes the room back to the lobby
+function MatchResults({ result, playerId, isHost }: MatchResultsProps) {
+  const { awards, players } = result.summary
+  return (
+    <div className="match-result">
+      <h2>{headline(result)}</h2>
+      <p className="subtle">{END_REASON_LABELS[result.reason]}</p>
+      {awards.length > 0 ? (
+        <div className="award-list">
+          {awards.map((award) => (
+            <div key={award.title} className="award">
+              <strong>{award.title}</strong>
+              <span className={award.playerId === playerId ? 'you-tag' : undefined}>
+                {award.name}
+              </span>
+              <span className="subtle">{award.detail}</span>
+            </div>
+          ))}
+        </div>
+      ) : null}
+      <table className="result-table">
+        <thead>
+          <tr>
+            <th>Pilot</th>
+            <th>K/D</th>
+            <th>Accuracy</th>
+            <th>Dealt</th>
+            <th>Taken</th>
+            <th>Streak</th>
+            <th>Abilities</th>
+          </tr>
+        </thead>
+        <tbody>
+          {players.map((stats) => (
+            <tr key={stats.playerId}>
+              <td className={stats.playerId === playerId ? 'you-tag' : undefined}>
+                {stats.name}
+                {stats.isBot ? ' (BOT)' : ''}
+              </td>
+              <td>
+                {stats.kills}/{stats.deaths}
+              </td>
+              <td title={`${stats.hits}/${stats.shots} shots hit`}>
+                {Math.round(stats.accuracy * 100)}%
+              </td>
+              <td>{stats.damageDealt}</td>
+              <td>{stats.damageTaken}</td>
+              <td>{stats.longestStreak}</td>
+              <td title={abilityBreakdown(stats) || undefined}>{abilityTotal(stats)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="subtle">
+        {isHost ? 'Restart to return to the lobby' : 'Waiting for the host to return to the lobby'}
+      </p>
+    </div>
+  )
+}
+
+export default MatchResults
@@ -0,0 +1,215 @@
+import { useEffect, useRef, useState } from 'react'
+import { animationFrames } from 'rxjs'
+import { ARENA, type StateSnapshot } from '@shared/protocol'
+import { decodeReplayFrames, type SnapshotReplay } from '@shared/replay'
+import { fetchReplay } from './net/replays'
+import { renderSnapshot } from './render/canvasRenderer'
+import { updateFxRegistry, type FxState } from './render/fx'
+import { createSnapshotInterpolator } from './rx/interpolation'
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4]
+// how much history is fed back into a fresh interpolator after a seek
+const SEEK_PRELOAD_MS = 1000
+const POSITION_UPDATE_MS = 250
+
+type Playback = {
+  replay: SnapshotReplay
+  frames: StateSnapshot[]
+}
+
+type ReplayViewerProps = {
+  replayId: string
+  adminToken: string
+  onClose: () => void
+}
+
+const formatTime = (ms: number) => {
+  const totalSec = Math.floor(ms / 1000)
+  return `${Math.floor(totalSec / 60)}:${String(totalSec % 60).padStart(2, '0')}`
+}
+
+// Plays recorded frames through the same interpolator and renderer as a live match. The
+// interpolator runs on a virtual clock equal to recorded server time, so it renders the
+// playhead minus its usual interpolation delay.
+function ReplayViewer({ replayId, adminToken, onClose }: ReplayViewerProps) {
+  const [playback, setPlayback] = useState<Playback | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [playing, setPlaying] = useState(true)
+  const [speed, setSpeed] = useState(1)
+  const [positionMs, setPositionMs] = useState(0)
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const playingRef = useRef(true)
+  const speedRef = useRef(1)
+  const playheadRef = useRef(0)
+  const seekRef = useRef<number | null>(null)
+
+  const frames = playback?.frames ?? []
+  const durationMs = frames.length > 1 ? frames[frames.length - 1].t - frames[0].t : 0
+
+  useEffect(() => {
+    let cancelled = false
+    fetchReplay(replayId, adminToken)
+      .then((replay) => {
+        if (cancelled) return
+        setPlayback({ replay, frames: decodeReplayFrames(replay) })
+      })
+      .catch((reason: unknown) => {
+        if (cancelled) return
+        setError(reason instanceof Error ? reason.message : 'Replay failed to load')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [replayId, adminToken])
+
+  useEffect(() => {
+    playingRef.current = playing
+  }, [playing])
+
+  useEffect(() => {
+    speedRef.current = speed
+  }, [speed])
+
+  useEffect(() => {
+    if (!playback || playback.frames.length === 0) return
+    const ctx = canvasRef.current?.getContext('2d')
+    if (!ctx) return
+    const { frames: recorded } = playback
+    const startT = recorded[0].t
+    const endOffsetMs = recorded[recorded.length - 1].t - startT
+    let interpolator = createSnapshotInterpolator()
+    let fx = new Map<string, FxState>()
+    let nextIndex = 0
+    let lastTimestamp: number | null = null
+    let lastPositionUpdate = -Infinity
+
+    const feedUntil = (t: number) => {
+      while (nextIndex < recorded.length && recorded[nextIndex].t <= t) {
+        const frame = recorded[nextIndex]
+        updateFxRegistry(frame, fx, frame.t)
+        interpolator.pushSnapshot(frame, frame.t)
+        nextIndex += 1
+      }
+    }
+
+    const seek = (t: number) => {
+      interpolator = createSnapshotInterpolator()
+      fx = new Map()
+      const index = recorded.findIndex((frame) => frame.t >= t - SEEK_PRELOAD_MS)
+      nextIndex = index === -1 ? recorded.length : index
+    }
+
+    const sub = animationFrames().subscribe(({ timestamp }) => {
+      const elapsed = lastTimestamp === null ? 0 : timestamp - lastTimestamp
+      lastTimestamp = timestamp
+      const pendingSeek = seekRef.current
+      if (pendingSeek !== null) {
+        seekRef.current = null
+        playheadRef.current = pendingSeek
+        seek(startT + pendingSeek)
+      } else if (playingRef.current) {
+        playheadRef.current = Math.min(endOffsetMs, playheadRef.current + elapsed * speedRef.current)
+      }
+
+      const t = startT + playheadRef.current
+      feedUntil(t)
+      const state = interpolator.getInterpolatedState(t)
+      if (state) renderSnapshot(ctx, state, fx, t)
+
+      if (Math.abs(timestamp - lastPositionUpdate) >= POSITION_UPDATE_MS || pendingSeek !== null) {
+        lastPositionUpdate = timestamp
+        setPositionMs(playheadRef.current)
+      }
+      if (playingRef.current && playheadRef.current >= endOffsetMs) {
+        playingRef.current = false
+        setPlaying(false)
+        setPositionMs(endOffsetMs)
+      }
+    })
+    return () => sub.unsubscribe()
+  }, [playback])
+
+  const togglePlaying = () => {
+    if (!playing && positionMs >= durationMs) {
+      seekRef.current = 0
+      setPositionMs(0)
+    }
+    setPlaying(!playing)
+  }
+
+  const handleSeek = (value: number) => {
+    seekRef.current = value
+    setPositionMs(value)
+  }
+
+  return (
+    <section className="game">
+      <header className="hud">
+        <div>
+          <p className="hud-label">Replay</p>
+          <p className="hud-value">{playback?.replay.roomId ?? replayId}</p>
+        </div>
+        <div>
+          <p className="hud-label">Recorded</p>
+          <p className="hud-value">
+            {playback ? new Date(playback.replay.startedAtMs).toLocaleString() : '...'}
+          </p>
+        </div>
+        <div>
+          <p className="hud-label">Pilots</p>
+          <p className="hud-value">
+            {playback?.replay.players.map((player) => player.name).join(', ') || '...'}
+          </p>
+        </div>
+        <div>
+          <p className="hud-label">Time</p>
+          <p className="hud-value">
+            {formatTime(positionMs)} / {formatTime(durationMs)}
+          </p>
+        </div>
+      </header>
+
+      <div className="game-main">
+        <div className="canvas-shell">
+          <canvas ref={canvasRef} width={ARENA.w} height={ARENA.h} />
+        </div>
+        {error ? <p className="error">{error}</p> : null}
+        {playback && frames.length === 0 ? (
+          <p className="subtle">This replay has no recorded frames.</p>
+        ) : null}
+        <div className="replay-controls">
+          <button
+            className="primary"
+            type="button"
+            disabled={frames.length === 0}
+            onClick={togglePlaying}
+          >
+            {playing ? 'Pause' : 'Play'}
+          </button>
+          <input
+            className="replay-seek"
+            type="range"
+            min={0}
+            max={durationMs}
+            step={50}
+            value={positionMs}
+            disabled={frames.length === 0}
+            onChange={(event) => handleSeek(Number(event.target.value))}
+          />
+          <select value={speed} onChange={(event) => setSpeed(Number(event.target.value))}>
+            {SPEEDS.map((value) => (
+              <option key={value} value={value}>
+                {value}x
+              </option>
+            ))}
+          </select>
+          <button className="ghost" type="button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </section>
+  )
+}
+
+export default ReplayViewer
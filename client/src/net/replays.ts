@@ -0,0 +1,42 @@
+import {
+  REPLAY_FORMAT_VERSION,
+  type Replay,
+  type ReplaySummary,
+  type SnapshotReplay,
+} from '@shared/replay'
+
+const serverUrl = () => (import.meta.env.VITE_SERVER_URL as string | undefined) ?? ''
+
+// replays are served to admins only; the token lives for the browser session
+const ADMIN_TOKEN_KEY = 'arena.adminToken'
+
+export const loadAdminToken = () => sessionStorage.getItem(ADMIN_TOKEN_KEY) ?? ''
+
+export const saveAdminToken = (token: string) => {
+  if (token) sessionStorage.setItem(ADMIN_TOKEN_KEY, token)
+  else sessionStorage.removeItem(ADMIN_TOKEN_KEY)
+}
+
+const authorized = (token: string): RequestInit => ({
+  headers: { Authorization: `Bearer ${token}` },
+})
+
+export const fetchReplays = async (token: string): Promise<ReplaySummary[]> => {
+  if (!token) return []
+  const response = await fetch(`${serverUrl()}/replays`, authorized(token))
+  if (!response.ok) return []
+  const body = (await response.json()) as { replays: ReplaySummary[] }
+  return body.replays
+}
+
+// the server always answers with a snapshot replay, expanding recorded commands itself
+export const fetchReplay = async (id: string, token: string): Promise<SnapshotReplay> => {
+  const url = `${serverUrl()}/replays/${encodeURIComponent(id)}`
+  const response = await fetch(url, authorized(token))
+  if (response.status === 401) throw new Error('Admin token rejected')
+  if (!response.ok) throw new Error('Replay not found')
+  const replay = (await response.json()) as Replay
+  if (replay.version !== REPLAY_FORMAT_VERSION) throw new Error('Replay format not supported')
+  if (replay.kind !== 'snapshots') throw new Error('Replay was not expanded')
+  return replay
+}
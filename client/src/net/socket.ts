@@ -1,73 +1,192 @@
 import { io, type Socket } from 'socket.io-client'
 import { Observable, share } from 'rxjs'
-import type { ClientToServerEvents, ServerToClientEvents } from '@shared/protocol'
+import {
+  PROTOCOL_VERSION,
+  type ClientToServerEvents,
+  type PlayerInput,
+  type ProtocolFeature,
+  type ServerToClientEvents,
+  type SnapshotDelta,
+} from '@shared/protocol'
+import { createBinaryCodec, isBinaryPayload } from '@shared/codec'
 
 type RoomCreatedPayload = Parameters<ServerToClientEvents['room:created']>[0]
 type RoomJoinedPayload = Parameters<ServerToClientEvents['room:joined']>[0]
+type RoomSpectatingPayload = Parameters<ServerToClientEvents['room:spectating']>[0]
+type SpectateRequest = Parameters<ClientToServerEvents['room:spectate']>[0]
+type InviteCreatedPayload = Parameters<ServerToClientEvents['invite:created']>[0]
 type RoomsListPayload = Parameters<ServerToClientEvents['rooms:list']>[0]
 type ChatMessagePayload = Parameters<ServerToClientEvents['chat:message']>[0]
 type ChatHistoryPayload = Parameters<ServerToClientEvents['chat:history']>[0]
+type ChatMutedPayload = Parameters<ServerToClientEvents['chat:muted']>[0]
 type MatchToastPayload = Parameters<ServerToClientEvents['match:toast']>[0]
-type GameStatePayload = Parameters<ServerToClientEvents['game:state']>[0]
+type MatchEndedPayload = Parameters<ServerToClientEvents['match:ended']>[0]
+type AntiCheatReportPayload = Parameters<ServerToClientEvents['anticheat:report']>[0]
+type GameStatePayload = SnapshotDelta
+type WireGameStatePayload = Parameters<ServerToClientEvents['game:state']>[0]
 type ErrorPayload = Parameters<ServerToClientEvents['error']>[0]
 type PongPayload = Parameters<ServerToClientEvents['net:pong']>[0]
+type ConnectionPayload = { status: 'connected' | 'reconnecting' }
 
 export type WsInEvent =
   | { type: 'room:created'; payload: RoomCreatedPayload }
   | { type: 'room:joined'; payload: RoomJoinedPayload }
+  | { type: 'room:spectating'; payload: RoomSpectatingPayload }
+  | { type: 'invite:created'; payload: InviteCreatedPayload }
   | { type: 'rooms:list'; payload: RoomsListPayload }
   | { type: 'chat:message'; payload: ChatMessagePayload }
   | { type: 'chat:history'; payload: ChatHistoryPayload }
+  | { type: 'chat:muted'; payload: ChatMutedPayload }
   | { type: 'match:toast'; payload: MatchToastPayload }
+  | { type: 'match:ended'; payload: MatchEndedPayload }
+  | { type: 'anticheat:report'; payload: AntiCheatReportPayload }
   | { type: 'game:state'; payload: GameStatePayload }
   | { type: 'error'; payload: ErrorPayload }
   | { type: 'net:pong'; payload: PongPayload }
+  | { type: 'connection'; payload: ConnectionPayload }
 
 type ClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>
 
+const IDENTITY_KEY = 'arena.identity'
+
+// a random id kept in localStorage so a room ban survives a reload
+const loadIdentity = (): string | undefined => {
+  try {
+    let identity = localStorage.getItem(IDENTITY_KEY)
+    if (!identity) {
+      identity = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`
+      localStorage.setItem(IDENTITY_KEY, identity)
+    }
+    return identity
+  } catch {
+    return undefined
+  }
+}
+
+const requestedFeatures = (): ProtocolFeature[] =>
+  import.meta.env.VITE_WIRE_CODEC === 'json'
+    ? ['delta_snapshots', 'prediction']
+    : ['binary_codec', 'delta_snapshots', 'prediction']
+
 export const connectSocket = () => {
   const envUrl = import.meta.env.VITE_SERVER_URL as string;
+  let codec = createBinaryCodec()
+  let features: ProtocolFeature[] = []
+  let resumeToken: string | null = null
+  // spectators hold no seat, so after a reconnect they simply ask to watch again
+  let spectating: SpectateRequest | null = null
+  let spectateRequest: SpectateRequest | null = null
+  const identity = loadIdentity()
 
   const socket: ClientSocket = io(envUrl)
+  socket.on('connect', () => {
+    features = []
+    socket.emit('hello', { version: PROTOCOL_VERSION, features: requestedFeatures(), identity })
+  })
+  // the server starts a fresh codec for every connection
+  socket.on('hello:ok', (payload) => {
+    features = payload.features
+    codec = createBinaryCodec()
+    if (resumeToken) socket.emit('room:resume', { token: resumeToken })
+    else if (spectating) socket.emit('room:spectate', spectating)
+  })
+  socket.on('room:created', (payload) => {
+    resumeToken = payload.resumeToken
+    spectating = null
+  })
+  socket.on('room:joined', (payload) => {
+    resumeToken = payload.resumeToken
+    spectating = null
+  })
+  socket.on('room:spectating', () => {
+    spectating = spectateRequest
+  })
+  socket.on('error', (payload) => {
+    if (
+      payload.code === 'resume_failed' ||
+      payload.code === 'kicked' ||
+      payload.code === 'banned'
+    ) {
+      resumeToken = null
+    }
+    if (payload.code === 'room_closed') spectating = null
+  })
 
   const wsIn$ = new Observable<WsInEvent>((subscriber) => {
     const onRoomCreated = (payload: RoomCreatedPayload) =>
       subscriber.next({ type: 'room:created', payload })
     const onRoomJoined = (payload: RoomJoinedPayload) =>
       subscriber.next({ type: 'room:joined', payload })
+    const onRoomSpectating = (payload: RoomSpectatingPayload) =>
+      subscriber.next({ type: 'room:spectating', payload })
+    const onInviteCreated = (payload: InviteCreatedPayload) =>
+      subscriber.next({ type: 'invite:created', payload })
     const onRoomsList = (payload: RoomsListPayload) =>
       subscriber.next({ type: 'rooms:list', payload })
     const onChatMessage = (payload: ChatMessagePayload) =>
       subscriber.next({ type: 'chat:message', payload })
     const onChatHistory = (payload: ChatHistoryPayload) =>
       subscriber.next({ type: 'chat:history', payload })
+    const onChatMuted = (payload: ChatMutedPayload) =>
+      subscriber.next({ type: 'chat:muted', payload })
     const onMatchToast = (payload: MatchToastPayload) =>
       subscriber.next({ type: 'match:toast', payload })
-    const onGameState = (payload: GameStatePayload) =>
-      subscriber.next({ type: 'game:state', payload })
+    const onMatchEnded = (payload: MatchEndedPayload) =>
+      subscriber.next({ type: 'match:ended', payload })
+    const onAntiCheatReport = (payload: AntiCheatReportPayload) =>
+      subscriber.next({ type: 'anticheat:report', payload })
+    const onGameState = (payload: WireGameStatePayload) => {
+      if (!isBinaryPayload(payload)) {
+        subscriber.next({ type: 'game:state', payload })
+        return
+      }
+      try {
+        subscriber.next({ type: 'game:state', payload: codec.decodeState(payload) })
+      } catch (error) {
+        console.error('Failed to decode game:state', error)
+      }
+    }
     const onError = (payload: ErrorPayload) => subscriber.next({ type: 'error', payload })
     const onPong = (payload: PongPayload) => subscriber.next({ type: 'net:pong', payload })
+    const onConnect = () =>
+      subscriber.next({ type: 'connection', payload: { status: 'connected' } })
+    const onDisconnect = () =>
+      subscriber.next({ type: 'connection', payload: { status: 'reconnecting' } })
 
     socket.on('room:created', onRoomCreated)
     socket.on('room:joined', onRoomJoined)
+    socket.on('room:spectating', onRoomSpectating)
+    socket.on('invite:created', onInviteCreated)
     socket.on('rooms:list', onRoomsList)
     socket.on('chat:message', onChatMessage)
     socket.on('chat:history', onChatHistory)
+    socket.on('chat:muted', onChatMuted)
     socket.on('match:toast', onMatchToast)
+    socket.on('match:ended', onMatchEnded)
+    socket.on('anticheat:report', onAntiCheatReport)
     socket.on('game:state', onGameState)
     socket.on('error', onError)
     socket.on('net:pong', onPong)
+    socket.on('connect', onConnect)
+    socket.on('disconnect', onDisconnect)
 
     return () => {
       socket.off('room:created', onRoomCreated)
       socket.off('room:joined', onRoomJoined)
+      socket.off('room:spectating', onRoomSpectating)
+      socket.off('invite:created', onInviteCreated)
       socket.off('rooms:list', onRoomsList)
       socket.off('chat:message', onChatMessage)
       socket.off('chat:history', onChatHistory)
+      socket.off('chat:muted', onChatMuted)
       socket.off('match:toast', onMatchToast)
+      socket.off('match:ended', onMatchEnded)
+      socket.off('anticheat:report', onAntiCheatReport)
       socket.off('game:state', onGameState)
       socket.off('error', onError)
       socket.off('net:pong', onPong)
+      socket.off('connect', onConnect)
+      socket.off('disconnect', onDisconnect)
     }
   }).pipe(share())
 
@@ -76,21 +195,43 @@ export const connectSocket = () => {
       socket.emit('room:create', payload),
     joinRoom: (payload: Parameters<ClientToServerEvents['room:join']>[0]) =>
       socket.emit('room:join', payload),
-    input: (payload: Parameters<ClientToServerEvents['player:input']>[0]) =>
-      socket.emit('player:input', payload),
+    spectateRoom: (payload: SpectateRequest) => {
+      spectateRequest = payload
+      socket.emit('room:spectate', payload)
+    },
+    input: (payload: PlayerInput) =>
+      socket.emit(
+        'player:input',
+        features.includes('binary_codec') ? codec.encodeInput(payload) : payload,
+      ),
     chatSend: (payload: Parameters<ClientToServerEvents['chat:send']>[0]) =>
       socket.emit('chat:send', payload),
     strikeConfirm: (payload: Parameters<ClientToServerEvents['strike:confirm']>[0]) =>
       socket.emit('strike:confirm', payload),
     portalPlaceB: (payload: Parameters<ClientToServerEvents['portal:placeB']>[0]) =>
       socket.emit('portal:placeB', payload),
+    setReady: (payload: Parameters<ClientToServerEvents['player:ready']>[0]) =>
+      socket.emit('player:ready', payload),
     configureMatch: (payload: Parameters<ClientToServerEvents['match:configure']>[0]) =>
       socket.emit('match:configure', payload),
     startMatch: () => socket.emit('match:start'),
     restartMatch: () => socket.emit('match:restart'),
+    kickPlayer: (payload: Parameters<ClientToServerEvents['room:kick']>[0]) =>
+      socket.emit('room:kick', payload),
+    banPlayer: (payload: Parameters<ClientToServerEvents['room:ban']>[0]) =>
+      socket.emit('room:ban', payload),
+    mutePlayer: (payload: Parameters<ClientToServerEvents['chat:mute']>[0]) =>
+      socket.emit('chat:mute', payload),
+    createInvite: (payload: Parameters<ClientToServerEvents['invite:create']>[0]) =>
+      socket.emit('invite:create', payload),
+    ackState: (payload: Parameters<ClientToServerEvents['state:ack']>[0]) => {
+      if (features.includes('delta_snapshots')) socket.emit('state:ack', payload)
+    },
     ping: (payload: Parameters<ClientToServerEvents['net:ping']>[0]) =>
       socket.emit('net:ping', payload),
   }
 
-  return { socket, wsIn$, send }
+  const hasFeature = (feature: ProtocolFeature) => features.includes(feature)
+
+  return { socket, wsIn$, send, hasFeature }
 }
@@ -1,5 +1,14 @@
-import { ARENA, type PlayerState, type StateSnapshot } from '@shared/protocol'
-import { colorFromId } from './colors'
+import {
+  ARENA,
+  type FlagState,
+  type PlayerState,
+  type SafeCircle,
+  type StateSnapshot,
+  type TeamId,
+  type WaveState,
+  type ZoneState,
+} from '@shared/protocol'
+import { colorForPlayer, colorFromId, TEAM_COLORS } from './colors'
 import type { FxState } from './fx'
 
 const COLORS = {
@@ -20,10 +29,21 @@ const COLORS = {
   pickupBouncer: '#ffb2f0',
   pickupSlash: '#9ae6ff',
   shieldRing: 'rgba(124, 255, 179, 0.7)',
+  killcam: '#ff5d73',
   beam: 'rgba(255, 225, 140, 0.85)',
   portal: 'rgba(122, 165, 255, 0.85)',
+  hillNeutral: '#c9d4ef',
+  hillContested: '#ff5d73',
+  storm: 'rgba(140, 60, 200, 0.22)',
+  circleEdge: 'rgba(210, 160, 255, 0.9)',
+  circleNext: 'rgba(255, 255, 255, 0.55)',
 }
 
+// the shrink countdown appears this long before the circle starts closing
+const CIRCLE_WARNING_MS = 10000
+
+const FLAG_BASE_RADIUS = 40
+
 const pickupLabel = (type: StateSnapshot['pickups'][number]['type']) => {
   if (type === 'echo') return 'E'
   if (type === 'time_bubble') return 'T'
@@ -100,8 +120,7 @@ const drawPlayer = (
   fx: FxState | undefined,
   nowMs: number,
 ) => {
-  const baseId = player.isEcho ? player.ownerId ?? player.id : player.id
-  const baseColor = colorFromId(baseId)
+  const baseColor = colorForPlayer(player)
   const hitActive = (fx?.hitUntil ?? 0) > nowMs
   const deathUntil = fx?.deathUntil ?? 0
   const deathActive = deathUntil > nowMs
@@ -201,6 +220,280 @@ export type PortalPreview = {
   r: number
 }
 
+// replays a death from the killer's side: camera on the killer, other players' bullets dimmed
+export type KillcamView = {
+  killerId: string
+  victimId: string
+  highlightBulletIds: ReadonlySet<string>
+  label: string
+}
+
+// world point drawn at the canvas centre; without a camera the whole arena is shown
+export type Camera = {
+  x: number
+  y: number
+  zoom: number
+}
+
+const KILLCAM_ZOOM = 1.6
+const KILLCAM_DIM_ALPHA = 0.3
+
+// keeps the view inside the arena, so a player near a wall is not centred exactly
+export const cameraFollowing = (
+  snapshot: StateSnapshot,
+  playerId: string,
+  zoom: number,
+): Camera => {
+  const target = snapshot.players.find((player) => player.id === playerId)
+  const halfW = ARENA.w / (2 * zoom)
+  const halfH = ARENA.h / (2 * zoom)
+  return {
+    x: Math.min(ARENA.w - halfW, Math.max(halfW, target?.x ?? ARENA.w / 2)),
+    y: Math.min(ARENA.h - halfH, Math.max(halfH, target?.y ?? ARENA.h / 2)),
+    zoom,
+  }
+}
+
+const applyCamera = (ctx: CanvasRenderingContext2D, camera: Camera) => {
+  ctx.translate(ARENA.w / 2, ARENA.h / 2)
+  ctx.scale(camera.zoom, camera.zoom)
+  ctx.translate(-camera.x, -camera.y)
+}
+
+const drawKillcamHighlights = (
+  ctx: CanvasRenderingContext2D,
+  snapshot: StateSnapshot,
+  killcam: KillcamView,
+  nowMs: number,
+) => {
+  const pulse = (Math.sin(nowMs / 90) + 1) * 0.5
+  ctx.save()
+  ctx.strokeStyle = COLORS.killcam
+  ctx.lineWidth = 2
+  snapshot.bullets.forEach((bullet) => {
+    if (!killcam.highlightBulletIds.has(bullet.id)) return
+    const radius = bullet.r ?? bullet.radius ?? 3
+    ctx.beginPath()
+    ctx.arc(bullet.x, bullet.y, radius + 6 + pulse * 4, 0, Math.PI * 2)
+    ctx.stroke()
+  })
+  const killer = snapshot.players.find((player) => player.id === killcam.killerId)
+  if (killer?.alive) {
+    ctx.globalAlpha = 0.6
+    ctx.setLineDash([6, 6])
+    ctx.beginPath()
+    ctx.arc(killer.x, killer.y, killer.r + 10, 0, Math.PI * 2)
+    ctx.stroke()
+  }
+  ctx.restore()
+}
+
+const drawFlagBase = (ctx: CanvasRenderingContext2D, flag: FlagState) => {
+  ctx.save()
+  ctx.strokeStyle = TEAM_COLORS[flag.id]
+  ctx.fillStyle = TEAM_COLORS[flag.id]
+  ctx.globalAlpha = 0.12
+  ctx.beginPath()
+  ctx.arc(flag.baseX, flag.baseY, FLAG_BASE_RADIUS, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.globalAlpha = 0.6
+  ctx.lineWidth = 2
+  ctx.setLineDash([6, 6])
+  ctx.stroke()
+  ctx.restore()
+}
+
+// carried flags follow the (interpolated) carrier rather than the flag's own position
+const drawFlag = (
+  ctx: CanvasRenderingContext2D,
+  flag: FlagState,
+  players: PlayerState[],
+  nowMs: number,
+  serverTimeMs: number,
+) => {
+  const carrier = flag.carrierId
+    ? players.find((player) => player.id === flag.carrierId && player.alive)
+    : undefined
+  const x = carrier ? carrier.x + carrier.r * 0.6 : flag.x
+  const y = carrier ? carrier.y - carrier.r * 0.6 : flag.y
+  const color = TEAM_COLORS[flag.id]
+  ctx.save()
+  if (carrier) {
+    ctx.strokeStyle = color
+    ctx.lineWidth = 3
+    ctx.globalAlpha = 0.5 + (Math.sin(nowMs / 150) + 1) * 0.25
+    ctx.beginPath()
+    ctx.arc(carrier.x, carrier.y, carrier.r + 10, 0, Math.PI * 2)
+    ctx.stroke()
+    ctx.globalAlpha = 1
+  }
+  ctx.strokeStyle = COLORS.text
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  ctx.moveTo(x, y + 10)
+  ctx.lineTo(x, y - 18)
+  ctx.stroke()
+  ctx.fillStyle = color
+  ctx.beginPath()
+  ctx.moveTo(x, y - 18)
+  ctx.lineTo(x + 16, y - 12)
+  ctx.lineTo(x, y - 6)
+  ctx.closePath()
+  ctx.fill()
+  if (!carrier && flag.returnsAtMs !== undefined) {
+    const remainingSec = Math.max(0, Math.ceil((flag.returnsAtMs - serverTimeMs) / 1000))
+    ctx.fillStyle = COLORS.text
+    ctx.font = '12px "Space Grotesk", "Segoe UI", sans-serif'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'top'
+    ctx.fillText(`${remainingSec}s`, x, y + 14)
+  }
+  ctx.restore()
+}
+
+// hill sides are team ids in team modes and player ids otherwise
+const sideColor = (snapshot: StateSnapshot, side: string) =>
+  snapshot.match.teams?.some((team) => team.id === side)
+    ? TEAM_COLORS[side as TeamId]
+    : colorFromId(side)
+
+const drawControlZone = (
+  ctx: CanvasRenderingContext2D,
+  zone: ZoneState,
+  snapshot: StateSnapshot,
+  nowMs: number,
+) => {
+  const ownerColor = zone.ownerId ? sideColor(snapshot, zone.ownerId) : COLORS.hillNeutral
+  ctx.save()
+  ctx.fillStyle = ownerColor
+  ctx.globalAlpha = 0.12
+  ctx.beginPath()
+  ctx.arc(zone.x, zone.y, zone.r, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.globalAlpha = zone.contested ? 0.5 + (Math.sin(nowMs / 90) + 1) * 0.25 : 0.8
+  ctx.strokeStyle = zone.contested ? COLORS.hillContested : ownerColor
+  ctx.lineWidth = 3
+  ctx.stroke()
+  if (zone.capturingId && (zone.progress ?? 0) > 0) {
+    ctx.globalAlpha = 1
+    ctx.strokeStyle = sideColor(snapshot, zone.capturingId)
+    ctx.lineWidth = 6
+    ctx.beginPath()
+    ctx.arc(
+      zone.x,
+      zone.y,
+      zone.r + 8,
+      -Math.PI / 2,
+      -Math.PI / 2 + Math.PI * 2 * (zone.progress ?? 0),
+    )
+    ctx.stroke()
+  }
+  const relocateSec = Math.max(0, Math.ceil((zone.expiresAtMs - snapshot.t) / 1000))
+  ctx.globalAlpha = 0.9
+  ctx.fillStyle = COLORS.text
+  ctx.font = '13px "Space Grotesk", "Segoe UI", sans-serif'
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText(zone.contested ? 'CONTESTED' : `HILL · ${relocateSec}s`, zone.x, zone.y)
+  ctx.restore()
+}
+
+// tints everything outside the safe circle and outlines where it shrinks to next
+const drawSafeCircle = (ctx: CanvasRenderingContext2D, circle: SafeCircle) => {
+  ctx.save()
+  ctx.fillStyle = COLORS.storm
+  ctx.beginPath()
+  ctx.rect(-ARENA.w, -ARENA.h, ARENA.w * 3, ARENA.h * 3)
+  ctx.arc(circle.x, circle.y, circle.r, 0, Math.PI * 2)
+  ctx.fill('evenodd')
+  ctx.strokeStyle = COLORS.circleEdge
+  ctx.lineWidth = 3
+  ctx.beginPath()
+  ctx.arc(circle.x, circle.y, circle.r, 0, Math.PI * 2)
+  ctx.stroke()
+  if (circle.next) {
+    ctx.strokeStyle = COLORS.circleNext
+    ctx.lineWidth = 1.5
+    ctx.setLineDash([8, 8])
+    ctx.beginPath()
+    ctx.arc(circle.next.x, circle.next.y, circle.next.r, 0, Math.PI * 2)
+    ctx.stroke()
+  }
+  ctx.restore()
+}
+
+// screen-space notice along the bottom edge
+const drawBottomBanner = (ctx: CanvasRenderingContext2D, label: string, color: string) => {
+  ctx.save()
+  ctx.fillStyle = COLORS.hpBg
+  ctx.fillRect(ARENA.w / 2 - 120, ARENA.h - 48, 240, 32)
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillStyle = color
+  ctx.font = '600 15px "Space Grotesk", "Segoe UI", sans-serif'
+  ctx.fillText(label, ARENA.w / 2, ARENA.h - 32)
+  ctx.restore()
+}
+
+const drawCircleWarning = (
+  ctx: CanvasRenderingContext2D,
+  circle: SafeCircle,
+  serverTimeMs: number,
+) => {
+  const next = circle.next
+  if (!next || serverTimeMs < next.startsAtMs - CIRCLE_WARNING_MS) return
+  const label =
+    serverTimeMs < next.startsAtMs
+      ? `Circle shrinks in ${Math.ceil((next.startsAtMs - serverTimeMs) / 1000)}s`
+      : 'Circle closing'
+  drawBottomBanner(ctx, label, COLORS.circleEdge)
+}
+
+const drawWaveCountdown = (
+  ctx: CanvasRenderingContext2D,
+  wave: WaveState,
+  serverTimeMs: number,
+) => {
+  if (wave.phase !== 'intermission') return
+  const seconds = Math.max(0, Math.ceil((wave.nextAtMs - serverTimeMs) / 1000))
+  drawBottomBanner(ctx, `Wave ${wave.number + 1} in ${seconds}s`, COLORS.text)
+}
+
+const drawMatchCountdown = (
+  ctx: CanvasRenderingContext2D,
+  startsAtMs: number,
+  serverTimeMs: number,
+) => {
+  const seconds = Math.max(1, Math.ceil((startsAtMs - serverTimeMs) / 1000))
+  ctx.save()
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillStyle = COLORS.text
+  ctx.font = '700 96px "Space Grotesk", "Segoe UI", sans-serif'
+  ctx.fillText(String(seconds), ARENA.w / 2, ARENA.h / 2)
+  ctx.font = '600 18px "Space Grotesk", "Segoe UI", sans-serif'
+  ctx.fillText('Get ready', ARENA.w / 2, ARENA.h / 2 + 70)
+  ctx.restore()
+}
+
+const drawKillcamBanner = (ctx: CanvasRenderingContext2D, killcam: KillcamView) => {
+  ctx.save()
+  ctx.strokeStyle = COLORS.killcam
+  ctx.lineWidth = 6
+  ctx.strokeRect(3, 3, ARENA.w - 6, ARENA.h - 6)
+  ctx.fillStyle = COLORS.hpBg
+  ctx.fillRect(ARENA.w / 2 - 180, 14, 360, 54)
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillStyle = COLORS.killcam
+  ctx.font = '600 16px "Space Grotesk", "Segoe UI", sans-serif'
+  ctx.fillText('KILLCAM', ARENA.w / 2, 30)
+  ctx.fillStyle = COLORS.text
+  ctx.font = '14px "Space Grotesk", "Segoe UI", sans-serif'
+  ctx.fillText(killcam.label, ARENA.w / 2, 52)
+  ctx.restore()
+}
+
 export const renderSnapshot = (
   ctx: CanvasRenderingContext2D,
   snapshot: StateSnapshot,
@@ -212,17 +505,28 @@ export const renderSnapshot = (
   strikeBooms: StrikeBoomFx[] = [],
   strikePreview?: StrikePreview,
   portalPreview?: PortalPreview,
+  killcam?: KillcamView,
+  camera?: Camera,
 ) => {
   ctx.clearRect(0, 0, ARENA.w, ARENA.h)
   ctx.fillStyle = COLORS.background
   ctx.fillRect(0, 0, ARENA.w, ARENA.h)
 
+  ctx.save()
+  const activeCamera = killcam
+    ? cameraFollowing(snapshot, killcam.killerId, KILLCAM_ZOOM)
+    : camera
+  if (activeCamera) applyCamera(ctx, activeCamera)
+
   ctx.strokeStyle = COLORS.border
   ctx.lineWidth = 3
   ctx.strokeRect(0, 0, ARENA.w, ARENA.h)
 
   snapshot.zones.forEach((zone) => {
-    if (zone.kind !== 'time_bubble') return
+    if (zone.kind === 'control') {
+      drawControlZone(ctx, zone, snapshot, nowMs)
+      return
+    }
     const pulse = (Math.sin(nowMs / 220) + 1) * 0.5
     const ring = 6 + pulse * 10
     ctx.save()
@@ -250,7 +554,8 @@ export const renderSnapshot = (
     }
     const hourglassW = 18
     const hourglassH = 28
-    ctx.resetTransform()
+    ctx.restore()
+    ctx.save()
     ctx.translate(zone.x, zone.y)
     ctx.strokeStyle = 'rgba(200, 255, 235, 0.9)'
     ctx.fillStyle = 'rgba(180, 255, 230, 0.35)'
@@ -275,6 +580,8 @@ export const renderSnapshot = (
     ctx.restore()
   })
 
+  snapshot.flags.forEach((flag) => drawFlagBase(ctx, flag))
+
   snapshot.portals.forEach((portal) => {
     ctx.save()
     ctx.strokeStyle = COLORS.portal
@@ -318,6 +625,7 @@ export const renderSnapshot = (
 
   ctx.fillStyle = COLORS.bullet
   snapshot.bullets.forEach((bullet) => {
+    ctx.globalAlpha = killcam && bullet.ownerRootId !== killcam.killerId ? KILLCAM_DIM_ALPHA : 1
     const radius = bullet.r ?? bullet.radius ?? 3
     if (bullet.isSlash) {
       const len = Math.hypot(bullet.vx, bullet.vy) || 1
@@ -383,6 +691,7 @@ export const renderSnapshot = (
     ctx.arc(bullet.x, bullet.y, radius, 0, Math.PI * 2)
     ctx.fill()
   })
+  ctx.globalAlpha = 1
 
   beams.forEach((beam) => {
     if (beam.until <= nowMs) return
@@ -441,6 +750,10 @@ export const renderSnapshot = (
   })
 
   snapshot.players.forEach((player) => drawPlayer(ctx, player, fxMap.get(player.id), nowMs))
+  snapshot.flags.forEach((flag) => drawFlag(ctx, flag, snapshot.players, nowMs, snapshot.t))
+  if (snapshot.match.circle) drawSafeCircle(ctx, snapshot.match.circle)
+
+  if (killcam) drawKillcamHighlights(ctx, snapshot, killcam, nowMs)
 
   if (strikePreview) {
     ctx.save()
@@ -482,4 +795,14 @@ export const renderSnapshot = (
     ctx.stroke()
     ctx.restore()
   }
+
+  ctx.restore()
+  if (snapshot.match.circle) drawCircleWarning(ctx, snapshot.match.circle, snapshot.t)
+  if (snapshot.match.phase === 'playing' && snapshot.match.wave) {
+    drawWaveCountdown(ctx, snapshot.match.wave, snapshot.t)
+  }
+  if (snapshot.match.phase === 'countdown' && snapshot.match.startsAtMs) {
+    drawMatchCountdown(ctx, snapshot.match.startsAtMs, snapshot.t)
+  }
+  if (killcam) drawKillcamBanner(ctx, killcam)
 }
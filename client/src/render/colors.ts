@@ -1,3 +1,5 @@
+import type { PlayerState, TeamId } from '@shared/protocol'
+
 const hashString = (value: string) => {
   let hash = 5381
   for (let i = 0; i < value.length; i += 1) {
@@ -13,3 +15,16 @@ export const colorFromId = (id: string) => {
   const lightness = 46 + ((hash >> 16) % 12)
   return `hsl(${hue} ${saturation}% ${lightness}%)`
 }
+
+export const TEAM_COLORS: Record<TeamId, string> = {
+  red: '#ff5c5c',
+  blue: '#4f8dff',
+  green: '#3ecf7a',
+  yellow: '#f5c542',
+}
+
+// team colour in team modes; echoes take their owner's colour
+export const colorForPlayer = (player: PlayerState) =>
+  player.team
+    ? TEAM_COLORS[player.team]
+    : colorFromId(player.isEcho ? player.ownerId ?? player.id : player.id)
@@ -11,7 +11,7 @@ import {
   startWith,
   timestamp,
 } from 'rxjs'
-import { ARENA, type ClientToServerEvents, type Keys, type Vec2 } from '@shared/protocol'
+import { ARENA, type Keys, type PlayerInput, type Vec2 } from '@shared/protocol'
 
 const initialKeys: Keys = { up: false, down: false, left: false, right: false }
 
@@ -31,6 +31,7 @@ export const createInputPackets = (
     isChatActive?: () => boolean
     resetKeys$?: Observable<void>
     isShootEnabled?: () => boolean
+    getViewTime?: () => number | null
   },
 ) => {
   const reset$ = options?.resetKeys$?.pipe(map(() => ({ type: 'reset' as const })))
@@ -102,13 +103,15 @@ export const createInputPackets = (
         const useItem = sample.value.itemCount !== acc.lastItemCount
         const chatActive = options?.isChatActive?.() ?? false
         const shootEnabled = options?.isShootEnabled?.() ?? true
-        const packet: Parameters<ClientToServerEvents['player:input']>[0] = {
+        const viewT = options?.getViewTime?.() ?? null
+        const packet: PlayerInput = {
           seq: acc.seq + 1,
           dt,
           keys: chatActive ? initialKeys : sample.value.keys,
           aim: sample.value.aim,
           shoot: chatActive || !shootEnabled ? false : sample.value.shoot,
           useItem: chatActive ? false : useItem,
+          ...(viewT !== null ? { viewT: Math.round(viewT) } : {}),
         }
         return {
           seq: acc.seq + 1,
@@ -121,12 +124,12 @@ export const createInputPackets = (
         seq: 0,
         lastTs: 0,
         lastItemCount: 0,
-        packet: null as Parameters<ClientToServerEvents['player:input']>[0] | null,
+        packet: null as PlayerInput | null,
       },
     ),
     map((state) => state.packet),
     filter(
-      (packet): packet is Parameters<ClientToServerEvents['player:input']>[0] => packet !== null,
+      (packet): packet is PlayerInput => packet !== null,
     ),
   )
 }
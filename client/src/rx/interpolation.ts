@@ -1,11 +1,15 @@
-import type { StateSnapshot } from '@shared/protocol'
+import type { SnapshotDelta, StateSnapshot } from '@shared/protocol'
+import { applySnapshotDelta } from '@shared/snapshotDelta'
 
 type Interpolator = {
+  applyDelta: (delta: SnapshotDelta) => StateSnapshot | null
   pushSnapshot: (snapshot: StateSnapshot, nowClientMs?: number) => void
   getInterpolatedState: (nowClientMs: number) => StateSnapshot | null
+  getRenderTimeServer: (nowClientMs: number) => number | null
 }
 
 const MAX_BUFFER = 30
+const MAX_BASELINES = 64
 const INTERP_DELAY_MS = 120
 const OFFSET_SMOOTH = 0.1
 const TELEPORT_DISTANCE = 220
@@ -20,11 +24,24 @@ const distance = (ax: number, ay: number, bx: number, by: number) =>
 export const createSnapshotInterpolator = (): Interpolator => {
   let buffer: StateSnapshot[] = []
   let offsetMs: number | null = null
+  const baselines = new Map<number, StateSnapshot>()
   const meta = new Map<
     string,
     { lastAlive: boolean; lastPos: { x: number; y: number }; noInterpUntilMs: number; lastSeen: number }
   >()
 
+  // rebuilds a full snapshot; null when the baseline it refers to is no longer known
+  const applyDelta = (delta: SnapshotDelta): StateSnapshot | null => {
+    const base = delta.baseId === null ? null : baselines.get(delta.baseId)
+    if (base === undefined) return null
+    const snapshot = applySnapshotDelta(base, delta)
+    baselines.set(delta.id, snapshot)
+    for (const id of baselines.keys()) {
+      if (delta.id - id > MAX_BASELINES || id > delta.id) baselines.delete(id)
+    }
+    return snapshot
+  }
+
   const pushSnapshot = (snapshot: StateSnapshot, nowClientMs = performance.now()) => {
     const newOffset = nowClientMs - snapshot.t
     offsetMs = offsetMs === null ? newOffset : lerp(offsetMs, newOffset, OFFSET_SMOOTH)
@@ -146,5 +163,8 @@ export const createSnapshotInterpolator = (): Interpolator => {
     }
   }
 
-  return { pushSnapshot, getInterpolatedState }
+  const getRenderTimeServer = (nowClientMs: number): number | null =>
+    offsetMs === null ? null : nowClientMs - INTERP_DELAY_MS - offsetMs
+
+  return { applyDelta, pushSnapshot, getInterpolatedState, getRenderTimeServer }
 }
@@ -0,0 +1,136 @@
+import type { BulletState, StateSnapshot } from '@shared/protocol'
+import type { KillcamView } from '../render/canvasRenderer'
+
+type KillcamFrame = {
+  atMs: number
+  snapshot: StateSnapshot
+}
+
+type KillcamPlayback = {
+  frames: KillcamFrame[]
+  view: KillcamView
+  startedAtMs: number
+  speed: number
+}
+
+type Killcam = {
+  record: (snapshot: StateSnapshot, nowMs: number) => void
+  request: (victimId: string, killerId: string, nowMs: number) => void
+  cancel: () => void
+  frameAt: (nowMs: number) => { snapshot: StateSnapshot; view: KillcamView } | null
+}
+
+const CLIP_MS = 3000
+// rendered frames lag the death event by the interpolation delay, so capture a bit later
+const CAPTURE_DELAY_MS = 150
+// the server respawns after 1.5s; the clip is sped up to finish just before that
+const PLAY_MS = 1200
+const HIT_SEARCH_PX = 60
+
+const describeBullet = (bullet: BulletState) => {
+  if (bullet.isSlash) return 'Void Slice'
+  if (typeof bullet.bouncesLeft === 'number') return 'Annihilation Bouncer'
+  return 'Blaster'
+}
+
+// the killer's projectile closest to the victim in the last frame the victim was alive
+const findKillingBullet = (frames: KillcamFrame[], victimId: string, killerId: string) => {
+  for (let i = frames.length - 1; i >= 0; i -= 1) {
+    const { snapshot } = frames[i]
+    const victim = snapshot.players.find((player) => player.id === victimId)
+    if (!victim?.alive) continue
+    let best: BulletState | null = null
+    let bestDistance = Infinity
+    for (const bullet of snapshot.bullets) {
+      if (bullet.ownerRootId !== killerId) continue
+      const reach = victim.r + (bullet.r ?? bullet.radius ?? 3) + HIT_SEARCH_PX
+      const distance = Math.hypot(bullet.x - victim.x, bullet.y - victim.y)
+      if (distance <= reach && distance < bestDistance) {
+        best = bullet
+        bestDistance = distance
+      }
+    }
+    return best
+  }
+  return null
+}
+
+const describeAbility = (frames: KillcamFrame[], killerId: string) => {
+  for (let i = frames.length - 1; i >= 0; i -= 1) {
+    for (const event of frames[i].snapshot.events) {
+      if (event.type === 'beam_fire' && event.byId === killerId) return 'Rift Sniper'
+      if (event.type === 'nova_fire' && event.byId === killerId) return 'Pulse Nova'
+    }
+  }
+  return null
+}
+
+// Keeps the last few seconds of rendered (already interpolated) snapshots, which is far
+// more than the interpolator's own buffer holds, and replays them around the killer.
+export const createKillcam = (): Killcam => {
+  let frames: KillcamFrame[] = []
+  let pending: { victimId: string; killerId: string; captureAtMs: number } | null = null
+  let playback: KillcamPlayback | null = null
+
+  const capture = (victimId: string, killerId: string, nowMs: number) => {
+    const clip = frames.filter((frame) => frame.atMs >= nowMs - CLIP_MS)
+    if (clip.length < 2) return
+    const killer = clip[clip.length - 1].snapshot.players.find((player) => player.id === killerId)
+    const bullet = findKillingBullet(clip, victimId, killerId)
+    const cause = bullet ? describeBullet(bullet) : describeAbility(clip, killerId)
+    const span = clip[clip.length - 1].atMs - clip[0].atMs
+    playback = {
+      frames: clip,
+      view: {
+        killerId,
+        victimId,
+        highlightBulletIds: new Set(bullet ? [bullet.id] : []),
+        label: `Killed by ${killer?.name ?? 'Unknown'}${cause ? ` · ${cause}` : ''}`,
+      },
+      startedAtMs: nowMs,
+      speed: Math.max(1, span / PLAY_MS),
+    }
+  }
+
+  const record = (snapshot: StateSnapshot, nowMs: number) => {
+    if (playback) return
+    frames.push({ atMs: nowMs, snapshot })
+    const cutoff = nowMs - CLIP_MS - CAPTURE_DELAY_MS
+    if (frames[0].atMs < cutoff) {
+      frames = frames.filter((frame) => frame.atMs >= cutoff)
+    }
+  }
+
+  const request = (victimId: string, killerId: string, nowMs: number) => {
+    pending = { victimId, killerId, captureAtMs: nowMs + CAPTURE_DELAY_MS }
+  }
+
+  const cancel = () => {
+    pending = null
+    playback = null
+  }
+
+  const frameAt = (nowMs: number) => {
+    if (pending && nowMs >= pending.captureAtMs) {
+      capture(pending.victimId, pending.killerId, nowMs)
+      pending = null
+    }
+    if (!playback) return null
+    const clipMs = (nowMs - playback.startedAtMs) * playback.speed
+    const targetMs = playback.frames[0].atMs + clipMs
+    const last = playback.frames[playback.frames.length - 1]
+    if (targetMs > last.atMs) {
+      playback = null
+      frames = []
+      return null
+    }
+    let frame = playback.frames[0]
+    for (const candidate of playback.frames) {
+      if (candidate.atMs > targetMs) break
+      frame = candidate
+    }
+    return { snapshot: frame.snapshot, view: playback.view }
+  }
+
+  return { record, request, cancel, frameAt }
+}
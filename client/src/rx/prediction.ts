@@ -0,0 +1,89 @@
+import { INPUT_STEP_MS, PHASE_DASH_MS, applyMovement, getPlayerMoveMult } from '@shared/movement'
+import type {
+  AbilityType,
+  PlayerInput,
+  StateSnapshot,
+  Vec2,
+  ZoneState,
+} from '@shared/protocol'
+
+type Predictor = {
+  applyInput: (packet: PlayerInput) => void
+  reconcile: (snapshot: StateSnapshot) => void
+  applyToSnapshot: (snapshot: StateSnapshot) => StateSnapshot
+}
+
+const MAX_PENDING = 60
+// the server applies one input per tick, so a dash covers the inputs after the one that
+// started it until PHASE_DASH_MS has passed
+const DASH_STEPS = Math.ceil(PHASE_DASH_MS / INPUT_STEP_MS) - 1
+
+export const createLocalPredictor = (): Predictor => {
+  let pending: PlayerInput[] = []
+  let position: Vec2 | null = null
+  let zones: ZoneState[] = []
+  let carryingFlag = false
+  // the server ignores movement during the pre-match countdown
+  let frozen = false
+  let canUseItems = false
+  let heldItem: AbilityType | null = null
+  let ackSeq = 0
+  // input that set off the last predicted dash
+  let dashSeq: number | null = null
+
+  const step = (pos: Vec2, packet: PlayerInput) => {
+    if (frozen) return
+    const sinceDash = dashSeq === null ? 0 : packet.seq - dashSeq
+    const dashing = sinceDash > 0 && sinceDash <= DASH_STEPS
+    // the dash drops a carried flag, which a snapshot from before it still shows
+    const dropped = dashSeq !== null && dashSeq > ackSeq && sinceDash > 0
+    const moveMult = getPlayerMoveMult(zones, pos, carryingFlag && !dropped, dashing)
+    applyMovement(pos, packet.keys, INPUT_STEP_MS / 1000, moveMult)
+  }
+
+  const applyInput = (packet: PlayerInput) => {
+    const dashPending = dashSeq !== null && dashSeq > ackSeq
+    if (packet.useItem && canUseItems && heldItem === 'phase_dash' && !dashPending) {
+      dashSeq = packet.seq
+    }
+    pending.push(packet)
+    if (pending.length > MAX_PENDING) {
+      pending = pending.slice(pending.length - MAX_PENDING)
+    }
+    if (position) step(position, packet)
+  }
+
+  // rewind to the authoritative position and replay everything the server has not applied yet
+  const reconcile = (snapshot: StateSnapshot) => {
+    ackSeq = snapshot.you.ackSeq
+    pending = pending.filter((packet) => packet.seq > ackSeq)
+    zones = snapshot.zones
+    frozen = snapshot.match.phase === 'countdown'
+    canUseItems = snapshot.match.phase === 'playing'
+    carryingFlag = snapshot.flags.some((flag) => flag.carrierId === snapshot.you.playerId)
+    const self = snapshot.players.find((player) => player.id === snapshot.you.playerId)
+    heldItem = self?.heldItem ?? null
+    if (!self || !self.alive) {
+      position = null
+      return
+    }
+    const next = { x: self.x, y: self.y }
+    pending.forEach((packet) => step(next, packet))
+    position = next
+  }
+
+  const applyToSnapshot = (snapshot: StateSnapshot): StateSnapshot => {
+    const predicted = position
+    if (!predicted) return snapshot
+    return {
+      ...snapshot,
+      players: snapshot.players.map((player) =>
+        player.id === snapshot.you.playerId && player.alive
+          ? { ...player, x: predicted.x, y: predicted.y }
+          : player,
+      ),
+    }
+  }
+
+  return { applyInput, reconcile, applyToSnapshot }
+}
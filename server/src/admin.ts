@@ -0,0 +1,39 @@
+import { timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { RoomManager } from "./roomManager";
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+};
+
+export const tokenMatches = (header: string | undefined, token: string): boolean => {
+    const provided = Buffer.from(header?.replace(/^Bearer\s+/i, "") ?? "");
+    const expected = Buffer.from(token);
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
+
+// plain HTTP next to socket.io; every route is disabled unless ADMIN_TOKEN is set
+export const createAdminHandler =
+    (token: string | undefined, roomManager: RoomManager) =>
+    (req: IncomingMessage, res: ServerResponse) => {
+        const path = (req.url ?? "").split("?")[0];
+        if (!token || !path.startsWith("/admin/")) {
+            sendJson(res, 404, { error: "Not found" });
+            return;
+        }
+        if (!tokenMatches(req.headers.authorization, token)) {
+            sendJson(res, 401, { error: "Unauthorized" });
+            return;
+        }
+        if (req.method === "GET" && path === "/admin/anticheat") {
+            sendJson(res, 200, {
+                rooms: roomManager.listRooms().map((room) => ({
+                    roomId: room.id,
+                    players: room.getSuspicionReports(),
+                })),
+            });
+            return;
+        }
+        sendJson(res, 404, { error: "Not found" });
+    };
@@ -0,0 +1,52 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { PlayerInput } from "../../shared/protocol";
+import { AntiCheat } from "./antiCheat";
+
+const input = (seq: number): PlayerInput => ({
+    seq,
+    dt: 50,
+    keys: { up: true, down: false, left: false, right: false },
+    aim: { x: 0, y: 0 },
+    shoot: false,
+    useItem: false,
+});
+
+describe("AntiCheat", () => {
+    it("drops replayed and out-of-order sequence numbers", () => {
+        const antiCheat = new AntiCheat();
+        assert.equal(antiCheat.recordInput("p1", input(5), 0, []), true);
+        assert.equal(antiCheat.recordInput("p1", input(5), 10, []), false);
+        assert.equal(antiCheat.recordInput("p1", input(4), 20, []), false);
+        antiCheat.resetSequence("p1");
+        assert.equal(antiCheat.recordInput("p1", input(1), 30, []), true);
+    });
+
+    it("drops inputs past the rate cap instead of only scoring them", () => {
+        const antiCheat = new AntiCheat();
+        // 100 inputs in one second, five times the 20Hz send rate
+        const accepted = Array.from({ length: 100 }, (_, i) =>
+            antiCheat.recordInput("p1", input(i + 1), i * 10, []),
+        ).filter(Boolean).length;
+        assert.equal(accepted, 48);
+        assert.ok(antiCheat.getScore("p1", 1000) > 0);
+    });
+
+    it("keeps accepting a steady 20Hz stream", () => {
+        const antiCheat = new AntiCheat();
+        for (let i = 0; i < 400; i += 1) {
+            assert.equal(antiCheat.recordInput("p1", input(i + 1), i * 50, []), true);
+        }
+        assert.equal(antiCheat.getScore("p1", 20_000), 0);
+    });
+
+    it("caps the accepted rate under a sustained flood", () => {
+        const antiCheat = new AntiCheat();
+        let accepted = 0;
+        for (let i = 0; i < 1000; i += 1) {
+            if (antiCheat.recordInput("p1", input(i + 1), i * 10, [])) accepted += 1;
+        }
+        // 10 s of flooding lets through at most one window's worth every 2 s
+        assert.ok(accepted <= 48 * 5, String(accepted));
+    });
+});
@@ -0,0 +1,187 @@
+import type {
+    PlayerInput,
+    SuspicionReport,
+    SuspicionSignal,
+    Vec2,
+} from "../../shared/protocol";
+
+const INPUT_WINDOW_MS = 2000;
+const MAX_INPUTS_PER_WINDOW = 48; // 20Hz plus room for jitter bunching
+const CLICK_WINDOW_MS = 2000;
+const MAX_CLICKS_PER_WINDOW = 16; // input is sampled at 20Hz, so 20 means toggling every packet
+const AIM_LOCK_PX = 1.5;
+const AIM_LOCK_STREAK = 20; // a full second of pixel-perfect tracking
+const AIM_LOCK_MIN_TRAVEL = 60; // only counts while the target is actually moving
+const SCORE_DECAY_PER_SEC = 0.2;
+
+const SIGNAL_WEIGHTS: Record<SuspicionSignal, number> = {
+    input_rate: 1,
+    seq_replay: 2,
+    aim_lock: 5,
+    fire_rate: 2,
+};
+
+type AimTarget = Vec2 & { id: string };
+
+type PlayerTrack = {
+    arrivals: number[];
+    clicks: number[];
+    lastSeq: number | null;
+    lastShoot: boolean;
+    aimTargetId: string | null;
+    aimTargetPos: Vec2 | null;
+    aimStreak: number;
+    aimTravel: number;
+    score: number;
+    scoredAtMs: number;
+    signals: Record<SuspicionSignal, number>;
+};
+
+const createTrack = (nowMs: number): PlayerTrack => ({
+    arrivals: [],
+    clicks: [],
+    lastSeq: null,
+    lastShoot: false,
+    aimTargetId: null,
+    aimTargetPos: null,
+    aimStreak: 0,
+    aimTravel: 0,
+    score: 0,
+    scoredAtMs: nowMs,
+    signals: { input_rate: 0, seq_replay: 0, aim_lock: 0, fire_rate: 0 },
+});
+
+const trimWindow = (times: number[], cutoffMs: number) => {
+    while (times.length > 0 && times[0] < cutoffMs) {
+        times.shift();
+    }
+};
+
+// per-room heuristics; a score only ever suggests cheating, it never proves it
+export class AntiCheat {
+    private tracks = new Map<string, PlayerTrack>();
+
+    // returns false for inputs that must be dropped: a replayed or out-of-order seq, or one
+    // past the rate cap so a flooding client cannot buy extra simulation steps
+    recordInput(
+        playerId: string,
+        input: PlayerInput,
+        nowMs: number,
+        targets: AimTarget[],
+    ): boolean {
+        const track = this.getTrack(playerId, nowMs);
+
+        if (track.lastSeq !== null && input.seq <= track.lastSeq) {
+            this.flag(track, "seq_replay", nowMs);
+            return false;
+        }
+        track.lastSeq = input.seq;
+
+        track.arrivals.push(nowMs);
+        trimWindow(track.arrivals, nowMs - INPUT_WINDOW_MS);
+        if (track.arrivals.length > MAX_INPUTS_PER_WINDOW) {
+            this.flag(track, "input_rate", nowMs);
+            track.arrivals.pop();
+            return false;
+        }
+
+        if (input.shoot && !track.lastShoot) {
+            track.clicks.push(nowMs);
+        }
+        track.lastShoot = input.shoot;
+        trimWindow(track.clicks, nowMs - CLICK_WINDOW_MS);
+        if (track.clicks.length > MAX_CLICKS_PER_WINDOW) {
+            this.flag(track, "fire_rate", nowMs);
+            track.clicks = [];
+        }
+
+        this.trackAim(track, input.aim, targets, nowMs);
+        return true;
+    }
+
+    // a resumed client starts counting from seq 1 again
+    resetSequence(playerId: string): void {
+        const track = this.tracks.get(playerId);
+        if (track) track.lastSeq = null;
+    }
+
+    forget(playerId: string): void {
+        this.tracks.delete(playerId);
+    }
+
+    getScore(playerId: string, nowMs: number): number {
+        const track = this.tracks.get(playerId);
+        if (!track) return 0;
+        this.decay(track, nowMs);
+        return track.score;
+    }
+
+    getReports(nowMs: number, nameOf: (playerId: string) => string | null): SuspicionReport[] {
+        return Array.from(this.tracks.entries()).map(([playerId, track]) => {
+            this.decay(track, nowMs);
+            return {
+                playerId,
+                name: nameOf(playerId) ?? "Unknown",
+                score: Math.round(track.score * 10) / 10,
+                signals: { ...track.signals },
+            };
+        });
+    }
+
+    private trackAim(track: PlayerTrack, aim: Vec2, targets: AimTarget[], nowMs: number): void {
+        let locked: AimTarget | null = null;
+        for (const target of targets) {
+            const dx = target.x - aim.x;
+            const dy = target.y - aim.y;
+            if (dx * dx + dy * dy <= AIM_LOCK_PX * AIM_LOCK_PX) {
+                locked = target;
+                break;
+            }
+        }
+        if (!locked) {
+            track.aimTargetId = null;
+            track.aimTargetPos = null;
+            track.aimStreak = 0;
+            track.aimTravel = 0;
+            return;
+        }
+        if (locked.id === track.aimTargetId && track.aimTargetPos) {
+            track.aimStreak += 1;
+            track.aimTravel += Math.hypot(
+                locked.x - track.aimTargetPos.x,
+                locked.y - track.aimTargetPos.y,
+            );
+        } else {
+            track.aimTargetId = locked.id;
+            track.aimStreak = 1;
+            track.aimTravel = 0;
+        }
+        track.aimTargetPos = { x: locked.x, y: locked.y };
+        if (track.aimStreak >= AIM_LOCK_STREAK && track.aimTravel >= AIM_LOCK_MIN_TRAVEL) {
+            this.flag(track, "aim_lock", nowMs);
+            track.aimStreak = 0;
+            track.aimTravel = 0;
+        }
+    }
+
+    private flag(track: PlayerTrack, signal: SuspicionSignal, nowMs: number): void {
+        this.decay(track, nowMs);
+        track.signals[signal] += 1;
+        track.score += SIGNAL_WEIGHTS[signal];
+    }
+
+    private decay(track: PlayerTrack, nowMs: number): void {
+        const elapsedSec = Math.max(0, nowMs - track.scoredAtMs) / 1000;
+        track.score = Math.max(0, track.score - elapsedSec * SCORE_DECAY_PER_SEC);
+        track.scoredAtMs = nowMs;
+    }
+
+    private getTrack(playerId: string, nowMs: number): PlayerTrack {
+        let track = this.tracks.get(playerId);
+        if (!track) {
+            track = createTrack(nowMs);
+            this.tracks.set(playerId, track);
+        }
+        return track;
+    }
+}
@@ -0,0 +1,4 @@
+// injected wherever time matters so tests and replays can drive it
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
@@ -0,0 +1,108 @@
+import type { EntityDelta, SnapshotDelta } from "../../shared/protocol";
+import {
+    ENTITY_COLLECTIONS,
+    type EntityCollection,
+    type SnapshotEntities,
+} from "../../shared/snapshotDelta";
+
+const MAX_BASELINE_AGE = 32;
+
+type SerializedEntities = Record<EntityCollection, Map<string, string>>;
+
+type EntityDeltas = Pick<SnapshotDelta, "baseId" | EntityCollection>;
+
+// serialized once per tick and shared by every player's tracker
+export const serializeEntities = (entities: SnapshotEntities): SerializedEntities => {
+    const serialized = {} as SerializedEntities;
+    for (const key of ENTITY_COLLECTIONS) {
+        const encoded = new Map<string, string>();
+        for (const entity of entities[key]) {
+            encoded.set(entity.id, JSON.stringify(entity));
+        }
+        serialized[key] = encoded;
+    }
+    return serialized;
+};
+
+const diffCollection = <T extends { id: string }>(
+    current: T[],
+    encoded: Map<string, string>,
+    baseline: Map<string, string> | undefined,
+): { delta: EntityDelta<T>; sent: Map<string, string> } => {
+    const upsert: T[] = [];
+    const sent = new Map<string, string>();
+    for (const entity of current) {
+        const value = encoded.get(entity.id) ?? JSON.stringify(entity);
+        sent.set(entity.id, value);
+        if (baseline?.get(entity.id) !== value) {
+            upsert.push(entity);
+        }
+    }
+    const remove: string[] = [];
+    if (baseline) {
+        for (const id of baseline.keys()) {
+            if (!sent.has(id)) remove.push(id);
+        }
+    }
+    return { delta: { upsert, remove }, sent };
+};
+
+export class DeltaTracker {
+    private sent = new Map<number, SerializedEntities>();
+    private ackedId: number | null = null;
+
+    ack(snapshotId: number): void {
+        if (!this.sent.has(snapshotId)) return;
+        if (this.ackedId !== null && snapshotId <= this.ackedId) return;
+        this.ackedId = snapshotId;
+        for (const id of this.sent.keys()) {
+            if (id < snapshotId) this.sent.delete(id);
+        }
+    }
+
+    build(
+        snapshotId: number,
+        entities: SnapshotEntities,
+        serialized: SerializedEntities,
+    ): EntityDeltas {
+        const baseId =
+            this.ackedId !== null && snapshotId - this.ackedId <= MAX_BASELINE_AGE
+                ? this.ackedId
+                : null;
+        const baseline = baseId === null ? undefined : this.sent.get(baseId);
+
+        const players = diffCollection(entities.players, serialized.players, baseline?.players);
+        const bullets = diffCollection(entities.bullets, serialized.bullets, baseline?.bullets);
+        const pickups = diffCollection(entities.pickups, serialized.pickups, baseline?.pickups);
+        const zones = diffCollection(entities.zones, serialized.zones, baseline?.zones);
+        const portals = diffCollection(entities.portals, serialized.portals, baseline?.portals);
+        const flags = diffCollection(entities.flags, serialized.flags, baseline?.flags);
+
+        this.sent.set(snapshotId, {
+            players: players.sent,
+            bullets: bullets.sent,
+            pickups: pickups.sent,
+            zones: zones.sent,
+            portals: portals.sent,
+            flags: flags.sent,
+        });
+        for (const id of this.sent.keys()) {
+            if (id !== this.ackedId && snapshotId - id > MAX_BASELINE_AGE) {
+                this.sent.delete(id);
+            }
+        }
+        if (baseId === null) {
+            this.ackedId = null;
+        }
+
+        return {
+            baseId: baseline ? baseId : null,
+            players: players.delta,
+            bullets: bullets.delta,
+            pickups: pickups.delta,
+            zones: zones.delta,
+            portals: portals.delta,
+            flags: flags.delta,
+        };
+    }
+}
@@ -0,0 +1,25 @@
+import {
+    PROTOCOL_VERSION,
+    type HelloPayload,
+    type ProtocolFeature,
+} from "../../shared/protocol";
+
+const SERVER_FEATURES: ProtocolFeature[] = ["binary_codec", "delta_snapshots", "prediction"];
+
+type HelloResult =
+    | { ok: true; features: ProtocolFeature[] }
+    | { ok: false; message: string };
+
+export const negotiateHello = (hello: HelloPayload): HelloResult => {
+    if (hello.version !== PROTOCOL_VERSION) {
+        return {
+            ok: false,
+            message: `Client protocol v${hello.version} does not match server v${PROTOCOL_VERSION}.`,
+        };
+    }
+    const requested = Array.isArray(hello.features) ? hello.features : [];
+    return {
+        ok: true,
+        features: SERVER_FEATURES.filter((feature) => requested.includes(feature)),
+    };
+};
@@ -1,22 +1,139 @@
 import { createServer } from "node:http";
-import { Server } from "socket.io";
+import { Server, type Socket } from "socket.io";
 import type {
+    ChatChannel,
     ChatMessage,
     ClientToServerEvents,
+    ErrorCode,
+    GameMode,
+    PlayerInput,
+    ProtocolFeature,
     ServerToClientEvents,
 } from "../../shared/protocol";
+import { GAME_MODES, TEAM_IDS } from "../../shared/protocol";
+import {
+    clientEventValidators,
+    isClientEventName,
+    isPlayerInput,
+} from "../../shared/validation";
+import { createAdminHandler } from "./admin";
+import { negotiateHello } from "./handshake";
+import { InvalidPacketCounter } from "./invalidPackets";
+import { DEFAULT_RATE_LIMITS, RateLimiter, parseRateLimits } from "./rateLimiter";
+import { ReplayStore, createReplayHandler } from "./replays";
+import type { ClientOrigin, Room } from "./room";
+import type { AdmitDenial } from "./roomAccess";
 import { RoomManager } from "./roomManager";
+import { createRadiusVisibility, fullVisibility } from "./visibility";
+import { WireRegistry, codecForFeatures } from "./wire";
 
-const httpServer = createServer();
+const httpServer = createServer((req, res) => {
+    if ((req.url ?? "").startsWith("/replays")) {
+        void replayHandler(req, res);
+    } else {
+        adminHandler(req, res);
+    }
+});
 const corsOrigin = process.env.CORS_ORIGIN ?? "*";
-const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
+
+type SocketData = {
+    playerId: string; // socket id, or the resumed player's original id
+    features: ProtocolFeature[] | null; // null until hello is accepted
+    identity?: string; // from hello; see HelloPayload
+    address: string; // see clientAddress
+};
+
+type GameSocket = Socket<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    Record<string, never>,
+    SocketData
+>;
+
+const io = new Server<
+    ClientToServerEvents,
+    ServerToClientEvents,
+    Record<string, never>,
+    SocketData
+>(httpServer, {
     cors: { origin: corsOrigin },
 });
-const roomManager = new RoomManager(io);
+const wire = new WireRegistry();
+const roomManager = new RoomManager(io, wire);
+const adminHandler = createAdminHandler(process.env.ADMIN_TOKEN, roomManager);
+// matches are only recorded when REPLAY_DIR is set
+const replayStore = process.env.REPLAY_DIR ? new ReplayStore(process.env.REPLAY_DIR) : null;
+const replayHandler = createReplayHandler(replayStore, process.env.ADMIN_TOKEN, corsOrigin);
+
+const envNumber = (value: string | undefined, fallback: number): number => {
+    const parsed = Number(value);
+    return value !== undefined && value !== "" && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const maxRewindMs = Math.min(
+    1000,
+    Math.max(0, envNumber(process.env.LAG_COMP_MAX_REWIND_MS, 250)),
+);
+const viewRadius = Math.max(0, envNumber(process.env.VIEW_RADIUS, 0));
+const visibility =
+    viewRadius > 0
+        ? createRadiusVisibility({
+              viewRadius,
+              margin: Math.max(0, envNumber(process.env.VIEW_MARGIN, 80)),
+          })
+        : fullVisibility;
+const autoKickScore = Math.max(0, envNumber(process.env.ANTICHEAT_KICK_SCORE, 0));
+const resumeGraceMs = Math.max(0, envNumber(process.env.RESUME_GRACE_MS, 30000));
+const invalidPacketLimit = Math.max(1, envNumber(process.env.INVALID_PACKET_LIMIT, 20));
+const rateLimits = parseRateLimits(process.env.RATE_LIMITS, DEFAULT_RATE_LIMITS);
+// set when a reverse proxy sits in front of the server, so X-Forwarded-For can be believed
+const trustProxy = process.env.TRUST_PROXY === "1";
+
+// the last X-Forwarded-For hop is the one our proxy added; earlier hops come from the client
+const clientAddress = (socket: GameSocket): string => {
+    const forwarded = socket.handshake.headers["x-forwarded-for"];
+    const hops = (Array.isArray(forwarded) ? forwarded.join(",") : forwarded ?? "").split(",");
+    const lastHop = hops[hops.length - 1].trim();
+    return trustProxy && lastHop ? lastHop : socket.handshake.address;
+};
+
+const clientOrigin = (socket: GameSocket): ClientOrigin => ({
+    identity: socket.data.identity,
+    address: socket.data.address,
+});
+
+// sent continuously in the background, so throttling them is not worth telling the user
+const SILENT_RATE_LIMITED = new Set(["player:input", "state:ack", "net:ping"]);
+const socketsByPlayer = new Map<string, GameSocket>();
+
 const broadcastRoomsList = () => {
     io.emit("rooms:list", { rooms: roomManager.getRoomsSummary() });
 };
 
+const leaveRoom = (playerId: string) => {
+    roomManager.removeSpectator(playerId);
+    const roomId = roomManager.removePlayer(playerId);
+    if (roomId) {
+        const room = roomManager.getRoom(roomId);
+        room?.ensureBots();
+    }
+    broadcastRoomsList();
+};
+
+// takes the player's sockets out of the room's broadcasts but keeps them connected, so the
+// client can go back to the room list
+const expelPlayer = (room: Room, playerId: string, message: string, code: ErrorCode) => {
+    io.to(playerId).emit("error", { message, code });
+    io.in(playerId).socketsLeave(room.id);
+    leaveRoom(playerId);
+};
+
+const ACCESS_DENIED_MESSAGES: Record<AdmitDenial, string> = {
+    password_required: "This room needs a password.",
+    wrong_password: "Wrong room password.",
+    invalid_invite: "This invite has expired or was already used.",
+};
+
 const normalizeRoomId = (roomId: string): string => roomId.trim().toUpperCase();
 
 const normalizeName = (name: string): string => {
@@ -45,6 +162,47 @@ const clampBotCount = (value: number | undefined, maxPlayers: number): number =>
     return Math.min(Math.max(0, Math.floor(safeValue)), maxPlayers - 1);
 };
 
+const clampMaxSpectators = (value: number | undefined): number => {
+    const safeValue =
+        typeof value === "number" && Number.isFinite(value) ? value : 8;
+    return Math.min(32, Math.max(0, Math.floor(safeValue)));
+};
+
+const normalizeGameMode = (value: string | undefined): GameMode =>
+    GAME_MODES.find((mode) => mode === value) ?? "ffa";
+
+// koth may be played without teams (0); every other team mode needs at least two
+const clampTeamCount = (value: number | undefined, mode: GameMode): number => {
+    const safeValue =
+        typeof value === "number" && Number.isFinite(value) ? value : 2;
+    if (mode === "koth" && safeValue < 2) return 0;
+    return Math.min(TEAM_IDS.length, Math.max(2, Math.floor(safeValue)));
+};
+
+const clampHillRelocateSec = (value: number | undefined): number => {
+    const safeValue =
+        typeof value === "number" && Number.isFinite(value) ? value : 45;
+    return Math.min(300, Math.max(15, Math.floor(safeValue)));
+};
+
+const clampLives = (value: number | undefined): number => {
+    const safeValue =
+        typeof value === "number" && Number.isFinite(value) ? value : 3;
+    return Math.min(9, Math.max(1, Math.floor(safeValue)));
+};
+
+const clampRoundCount = (value: number | undefined): number => {
+    const safeValue =
+        typeof value === "number" && Number.isFinite(value) ? value : 3;
+    return Math.min(9, Math.max(1, Math.floor(safeValue)));
+};
+
+const clampScoreLimit = (value: number | undefined): number => {
+    const safeValue =
+        typeof value === "number" && Number.isFinite(value) ? value : 30;
+    return Math.min(500, Math.max(0, Math.floor(safeValue)));
+};
+
 const clampMaxHp = (value: number | undefined): number => {
     const safeValue =
         typeof value === "number" && Number.isFinite(value) ? value : 5;
@@ -53,14 +211,97 @@ const clampMaxHp = (value: number | undefined): number => {
 
 io.on("connection", (socket) => {
     console.log("connected", socket.id);
-    socket.emit("rooms:list", { rooms: roomManager.getRoomsSummary() });
+    socket.data.playerId = socket.id;
+    socket.data.features = null;
+    socket.data.address = clientAddress(socket);
+    socketsByPlayer.set(socket.id, socket);
+    const rateLimiter = new RateLimiter(rateLimits);
+    const invalidPackets = new InvalidPacketCounter(invalidPacketLimit);
+
+    // a spectator who decides to play gives up the spectator seat first
+    const stopSpectating = () => {
+        const room = roomManager.getRoomBySpectator(socket.data.playerId);
+        if (!room) return;
+        roomManager.removeSpectator(socket.data.playerId);
+        socket.leave(room.id);
+        socket.leave(room.spectatorChannel);
+    };
+
+    const rejectPacket = (event: unknown) => {
+        console.warn("invalid packet", socket.id, String(event));
+        if (invalidPackets.reject()) {
+            socket.disconnect(true);
+        }
+    };
+
+    socket.use(([event, payload], next) => {
+        if (socket.disconnected) return;
+        if (!isClientEventName(event) || !clientEventValidators[event](payload)) {
+            rejectPacket(event);
+            return;
+        }
+        const verdict = rateLimiter.check(event);
+        if (verdict === "abusive") {
+            console.warn("flooding", socket.id, event);
+            socket.emit("error", { message: "Disconnected for flooding.", code: "rate_limited" });
+            socket.disconnect(true);
+            return;
+        }
+        if (verdict === "muted") {
+            const seconds = Math.ceil(rateLimiter.getMuteRemainingMs() / 1000);
+            socket.emit("error", { message: `Chat muted for ${seconds}s.`, code: "chat_muted" });
+            return;
+        }
+        if (verdict === "limited") {
+            if (!SILENT_RATE_LIMITED.has(event)) {
+                socket.emit("error", { message: "Slow down.", code: "rate_limited" });
+            }
+            return;
+        }
+        // anything else sent before hello (e.g. buffered during a reconnect) is dropped
+        if (event === "hello" || socket.data.features) next();
+    });
+
+    socket.on("hello", (hello) => {
+        if (socket.data.features) return;
+        const result = negotiateHello(hello);
+        if (!result.ok) {
+            socket.emit("error", { message: result.message, code: "version_mismatch" });
+            socket.disconnect(true);
+            return;
+        }
+        socket.data.features = result.features;
+        socket.data.identity = hello.identity;
+        wire.register(socket.data.playerId, codecForFeatures(result.features));
+        socket.emit("hello:ok", { version: hello.version, features: result.features });
+        socket.emit("rooms:list", { rooms: roomManager.getRoomsSummary() });
+    });
 
     socket.on(
         "room:create",
-        ({ name, maxPlayers, isPrivate, fillWithBots, botCount, botDifficulty, maxHp }) => {
+        ({
+            name,
+            maxPlayers,
+            isPrivate,
+            fillWithBots,
+            botCount,
+            botDifficulty,
+            maxHp,
+            maxSpectators,
+            mode,
+            teamCount,
+            friendlyFire,
+            scoreLimit,
+            hillRelocateSec,
+            lives,
+            roundCount,
+            password,
+        }) => {
+            stopSpectating();
             const clampedMax = clampMaxPlayers(maxPlayers);
+            const gameMode = normalizeGameMode(mode);
             const room = roomManager.createRoom(
-                { id: socket.id, name: normalizeName(name) },
+                { id: socket.data.playerId, name: normalizeName(name) },
                 {
                     maxPlayers: clampedMax,
                     isPrivate: !!isPrivate,
@@ -68,22 +309,55 @@ io.on("connection", (socket) => {
                     botCount: clampBotCount(botCount, clampedMax),
                     botDifficulty: normalizeBotDifficulty(botDifficulty),
                     maxHp: clampMaxHp(maxHp),
+                    maxSpectators: clampMaxSpectators(maxSpectators),
+                    mode: gameMode,
+                    teamCount: clampTeamCount(teamCount, gameMode),
+                    friendlyFire: !!friendlyFire,
+                    scoreLimit: clampScoreLimit(scoreLimit),
+                    hillRelocateSec: clampHillRelocateSec(hillRelocateSec),
+                    lives: clampLives(lives),
+                    roundCount: clampRoundCount(roundCount),
+                    password,
+                    maxRewindMs,
+                    autoKickScore,
                 },
             );
+            room.setVisibilityPolicy(visibility);
+            room.setReplayStore(replayStore);
+            room.setOrigin(socket.data.playerId, clientOrigin(socket));
             socket.join(room.id);
-            socket.emit("room:created", { roomId: room.id, playerId: socket.id });
+            socket.emit("room:created", {
+                roomId: room.id,
+                playerId: socket.data.playerId,
+                resumeToken: roomManager.issueResumeToken(socket.data.playerId),
+            });
             socket.emit("chat:history", { messages: room.getChatHistory() });
             room.ensureBots();
             broadcastRoomsList();
         });
 
-    socket.on("room:join", ({ roomId, name }) => {
+    socket.on("room:join", async ({ roomId, name, password, invite }) => {
         const normalizedRoomId = normalizeRoomId(roomId);
         const room = roomManager.getRoom(normalizedRoomId);
         if (!room) {
             socket.emit("error", { message: "Room not found." });
             return;
         }
+        if (room.isBanned(clientOrigin(socket))) {
+            socket.emit("error", { message: "You are banned from this room.", code: "banned" });
+            return;
+        }
+        const admitted = await room.admit({ password, invite });
+        if (admitted !== "ok" && admitted !== "invited") {
+            socket.emit("error", { message: ACCESS_DENIED_MESSAGES[admitted], code: admitted });
+            return;
+        }
+        // the password check yields, so the socket or the room may be gone by now
+        if (!socket.connected) return;
+        if (roomManager.getRoom(room.id) !== room) {
+            socket.emit("error", { message: "Room not found." });
+            return;
+        }
         if (room.isFull()) {
             room.removeBotsForSpace(1);
         }
@@ -91,94 +365,269 @@ io.on("connection", (socket) => {
             socket.emit("error", { message: "Room is full." });
             return;
         }
+        // spent last, once nothing else can turn the player away; an overlapping join with the
+        // same single-use invite may have got there first
+        if (admitted === "invited" && !room.redeemInvite(invite)) {
+            room.ensureBots();
+            const message = ACCESS_DENIED_MESSAGES.invalid_invite;
+            socket.emit("error", { message, code: "invalid_invite" });
+            return;
+        }
+        stopSpectating();
         const joinedRoom = roomManager.joinRoom(normalizedRoomId, {
-            id: socket.id,
+            id: socket.data.playerId,
             name: normalizeName(name),
         });
         if (!joinedRoom) {
             socket.emit("error", { message: "Room not found." });
             return;
         }
+        joinedRoom.setOrigin(socket.data.playerId, clientOrigin(socket));
         socket.join(joinedRoom.id);
-        socket.emit("room:joined", { roomId: joinedRoom.id, playerId: socket.id });
+        socket.emit("room:joined", {
+            roomId: joinedRoom.id,
+            playerId: socket.data.playerId,
+            resumeToken: roomManager.issueResumeToken(socket.data.playerId),
+        });
         socket.emit("chat:history", { messages: joinedRoom.getChatHistory() });
+        socket.emit("chat:muted", { playerIds: joinedRoom.getMutedIds() });
         joinedRoom.ensureBots();
         broadcastRoomsList();
     });
 
-    socket.on("match:configure", ({ durationSec }) => {
-        const room = roomManager.getRoomByPlayer(socket.id);
+    socket.on("room:spectate", async ({ roomId, name, password, invite }) => {
+        const spectatorId = socket.data.playerId;
+        if (roomManager.getRoomByPlayer(spectatorId) || roomManager.getRoomBySpectator(spectatorId)) {
+            socket.emit("error", { message: "Already in a room." });
+            return;
+        }
+        const room = roomManager.getRoom(normalizeRoomId(roomId));
+        if (!room) {
+            socket.emit("error", { message: "Room not found." });
+            return;
+        }
+        if (room.isBanned(clientOrigin(socket))) {
+            socket.emit("error", { message: "You are banned from this room.", code: "banned" });
+            return;
+        }
+        if (room.isSpectatorsFull()) {
+            socket.emit("error", { message: "No spectator slots left." });
+            return;
+        }
+        const admitted = await room.admit({ password, invite });
+        if (admitted !== "ok" && admitted !== "invited") {
+            socket.emit("error", { message: ACCESS_DENIED_MESSAGES[admitted], code: admitted });
+            return;
+        }
+        if (!socket.connected) return;
+        if (roomManager.getRoom(room.id) !== room) {
+            socket.emit("error", { message: "Room not found." });
+            return;
+        }
+        if (room.isSpectatorsFull()) {
+            socket.emit("error", { message: "No spectator slots left." });
+            return;
+        }
+        if (admitted === "invited" && !room.redeemInvite(invite)) {
+            const message = ACCESS_DENIED_MESSAGES.invalid_invite;
+            socket.emit("error", { message, code: "invalid_invite" });
+            return;
+        }
+        roomManager.spectateRoom(room.id, { id: spectatorId, name: normalizeName(name) });
+        socket.join(room.id);
+        socket.join(room.spectatorChannel);
+        socket.emit("room:spectating", { roomId: room.id, spectatorId });
+        socket.emit("chat:history", { messages: room.getChatHistory(true) });
+        broadcastRoomsList();
+    });
+
+    socket.on("room:resume", ({ token }) => {
+        const session = roomManager.resumeSession(token);
+        if (!session) {
+            socket.emit("error", { message: "Session expired.", code: "resume_failed" });
+            return;
+        }
+        const { room, playerId } = session;
+        const previous = socketsByPlayer.get(playerId);
+        if (previous && previous.id !== socket.id) {
+            // the old connection has not timed out yet; it must not park the player again
+            previous.data.playerId = "";
+            previous.disconnect(true);
+        }
+        wire.unregister(socket.data.playerId);
+        socketsByPlayer.delete(socket.data.playerId);
+        socket.data.playerId = playerId;
+        socketsByPlayer.set(playerId, socket);
+        room.setOrigin(playerId, clientOrigin(socket));
+        wire.register(playerId, codecForFeatures(socket.data.features ?? []));
+        socket.join(playerId);
+        socket.join(room.id);
+        socket.emit("room:joined", { roomId: room.id, playerId, resumeToken: token });
+        socket.emit("chat:history", { messages: room.getChatHistory() });
+        socket.emit("chat:muted", { playerIds: room.getMutedIds() });
+        broadcastRoomsList();
+    });
+
+    socket.on("player:ready", ({ ready }) => {
+        const room = roomManager.getRoomByPlayer(socket.data.playerId);
+        if (!room) return;
+        if (room.match.phase !== "lobby") return;
+        room.setReady(socket.data.playerId, ready);
+    });
+
+    socket.on("match:configure", (settings) => {
+        const room = roomManager.getRoomByPlayer(socket.data.playerId);
         if (!room) return;
-        if (room.match.hostId !== socket.id) return;
+        if (room.match.hostId !== socket.data.playerId) return;
         if (room.match.phase !== "lobby") return;
-        room.configureMatchDuration(durationSec);
-        io.to(room.id).emit("match:toast", { message: "Match duration updated" });
+        room.configureMatch(settings);
+        io.to(room.id).emit("match:toast", { message: "Match settings updated" });
     });
 
     socket.on("match:start", () => {
-        const room = roomManager.getRoomByPlayer(socket.id);
+        const room = roomManager.getRoomByPlayer(socket.data.playerId);
         if (!room) return;
-        if (room.match.hostId !== socket.id) return;
+        if (room.match.hostId !== socket.data.playerId) return;
         if (room.match.phase !== "lobby") return;
-        room.startMatch(Date.now());
+        room.startMatch();
     });
 
     socket.on("match:restart", () => {
-        const room = roomManager.getRoomByPlayer(socket.id);
+        const room = roomManager.getRoomByPlayer(socket.data.playerId);
         if (!room) return;
-        if (room.match.hostId !== socket.id) return;
+        if (room.match.hostId !== socket.data.playerId) return;
         if (room.match.phase === "lobby") return;
         room.restartMatch();
     });
 
+    // the host may act on any other human in their room, connected or waiting to resume
+    const moderatedRoom = (targetId: string): Room | null => {
+        const room = roomManager.getRoomByPlayer(socket.data.playerId);
+        if (!room || room.match.hostId !== socket.data.playerId) return null;
+        if (targetId === socket.data.playerId) return null;
+        return roomManager.getRoomByPlayer(targetId) === room ? room : null;
+    };
+
+    socket.on("room:kick", ({ playerId }) => {
+        const room = moderatedRoom(playerId);
+        if (!room) return;
+        const name = room.getPlayerName(playerId) ?? "A player";
+        expelPlayer(room, playerId, "The host removed you from the room.", "kicked");
+        room.postSystemMessage(`${name} was kicked by the host`);
+    });
+
+    socket.on("room:ban", ({ playerId }) => {
+        const room = moderatedRoom(playerId);
+        if (!room) return;
+        const name = room.getPlayerName(playerId) ?? "A player";
+        room.banPlayer(playerId);
+        expelPlayer(room, playerId, "The host banned you from the room.", "banned");
+        room.postSystemMessage(`${name} was banned by the host`);
+    });
+
+    socket.on("chat:mute", ({ playerId, muted }) => {
+        const room = moderatedRoom(playerId);
+        if (!room || room.isMuted(playerId) === muted) return;
+        const name = room.getPlayerName(playerId) ?? "A player";
+        room.setMuted(playerId, muted);
+        room.postSystemMessage(`${name} was ${muted ? "muted" : "unmuted"} by the host`);
+    });
+
+    socket.on("invite:create", (options) => {
+        const room = roomManager.getRoomByPlayer(socket.data.playerId);
+        if (!room) return;
+        if (room.match.hostId !== socket.data.playerId) return;
+        socket.emit("invite:created", room.createInvite(options));
+    });
+
     socket.on("strike:confirm", ({ x, y }) => {
-        const room = roomManager.getRoomByPlayer(socket.id);
+        const room = roomManager.getRoomByPlayer(socket.data.playerId);
         if (!room) return;
-        room.confirmStrike(socket.id, x, y, Date.now());
+        room.confirmStrike(socket.data.playerId, x, y);
     });
 
     socket.on("portal:placeB", ({ x, y }) => {
-        const room = roomManager.getRoomByPlayer(socket.id);
+        const room = roomManager.getRoomByPlayer(socket.data.playerId);
         if (!room) return;
-        room.confirmPortalB(socket.id, x, y, Date.now());
+        room.confirmPortalB(socket.data.playerId, x, y);
     });
 
     socket.on("chat:send", ({ text }) => {
-        const room = roomManager.getRoomByPlayer(socket.id);
+        const playerRoom = roomManager.getRoomByPlayer(socket.data.playerId);
+        const room = playerRoom ?? roomManager.getRoomBySpectator(socket.data.playerId);
         if (!room) return;
         const normalized = text.trim().slice(0, 120);
         if (!normalized) return;
-        const fromName = room.getPlayerName(socket.id) ?? "Unknown";
+        if (playerRoom?.isMuted(socket.data.playerId)) {
+            socket.emit("error", { message: "The host has muted you.", code: "chat_muted" });
+            return;
+        }
+        const channel: ChatChannel = playerRoom ? "room" : "spectators";
+        const fromName =
+            (playerRoom
+                ? room.getPlayerName(socket.data.playerId)
+                : room.getSpectatorName(socket.data.playerId)) ?? "Unknown";
         const message: ChatMessage = {
             id: Math.random().toString(36).slice(2, 8),
             roomId: room.id,
-            fromId: socket.id,
+            fromId: socket.data.playerId,
             fromName,
             text: normalized,
             t: Date.now(),
+            channel,
         };
         room.addChatMessage(message);
-        io.to(room.id).emit("chat:message", message);
+        io.to(channel === "room" ? room.id : room.spectatorChannel).emit("chat:message", message);
     });
 
     socket.on("player:input", (payload) => {
-        const room = roomManager.getRoomByPlayer(socket.id);
+        const room = roomManager.getRoomByPlayer(socket.data.playerId);
+        if (!room) return;
+        let input: PlayerInput;
+        try {
+            input = wire.decodeInput(socket.data.playerId, payload);
+        } catch {
+            rejectPacket("player:input");
+            return;
+        }
+        if (!isPlayerInput(input)) {
+            rejectPacket("player:input");
+            return;
+        }
+        if (room.handleInput(socket.data.playerId, input)) return;
+        const name = room.getPlayerName(socket.data.playerId) ?? "A player";
+        expelPlayer(room, socket.data.playerId, "Removed by anti-cheat.", "kicked");
+        socket.disconnect(true);
+        io.to(room.id).emit("match:toast", { message: `${name} was removed` });
+    });
+
+    socket.on("state:ack", ({ id }) => {
+        // without an acked baseline the tracker keeps sending full snapshots
+        if (!socket.data.features?.includes("delta_snapshots")) return;
+        const room =
+            roomManager.getRoomByPlayer(socket.data.playerId) ??
+            roomManager.getRoomBySpectator(socket.data.playerId);
         if (!room) return;
-        room.handleInput(socket.id, payload);
+        room.ackSnapshot(socket.data.playerId, id);
     });
 
-    socket.on("net:ping", ({ t }) => {
+    socket.on("net:ping", ({ t, rttMs }) => {
         socket.emit("net:pong", { t });
+        if (typeof rttMs === "number" && Number.isFinite(rttMs)) {
+            roomManager.getRoomByPlayer(socket.data.playerId)?.reportRtt(socket.data.playerId, rttMs);
+        }
     });
 
     socket.on("disconnect", () => {
-        const roomId = roomManager.removePlayer(socket.id);
-        if (roomId) {
-            const room = roomManager.getRoom(roomId);
-            room?.ensureBots();
-        }
-        broadcastRoomsList();
+        const playerId = socket.data.playerId;
         console.log("disconnected", socket.id);
+        if (!playerId) return;
+        socketsByPlayer.delete(playerId);
+        wire.unregister(playerId);
+        const parked = roomManager.parkPlayer(playerId, resumeGraceMs, () => leaveRoom(playerId));
+        if (!parked) {
+            leaveRoom(playerId);
+        }
     });
 });
 
@@ -0,0 +1,18 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { InvalidPacketCounter } from "./invalidPackets";
+
+describe("InvalidPacketCounter", () => {
+    it("tolerates up to the limit and drops the sender on the next one", () => {
+        const counter = new InvalidPacketCounter(3);
+        assert.deepEqual([1, 2, 3].map(() => counter.reject()), [false, false, false]);
+        assert.equal(counter.reject(), true);
+        assert.equal(counter.reject(), true);
+    });
+
+    it("drops on the second offence with a limit of one", () => {
+        const counter = new InvalidPacketCounter(1);
+        assert.equal(counter.reject(), false);
+        assert.equal(counter.reject(), true);
+    });
+});
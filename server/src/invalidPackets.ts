@@ -0,0 +1,15 @@
+// payloads from one socket that failed validation; past the limit the socket is dropped
+export class InvalidPacketCounter {
+    private limit: number;
+    private count = 0;
+
+    constructor(limit: number) {
+        this.limit = limit;
+    }
+
+    // true once the sender has gone over the limit
+    reject(): boolean {
+        this.count += 1;
+        return this.count > this.limit;
+    }
+}
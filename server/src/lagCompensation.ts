@@ -0,0 +1,50 @@
+import type { PlayerState, Vec2 } from "../../shared/protocol";
+
+type PositionFrame = {
+    tMs: number;
+    positions: Map<string, Vec2>;
+};
+
+export class PositionHistory {
+    private frames: PositionFrame[] = [];
+    private readonly windowMs: number;
+
+    constructor(windowMs: number) {
+        this.windowMs = windowMs;
+    }
+
+    record(tMs: number, players: Iterable<PlayerState>): void {
+        const positions = new Map<string, Vec2>();
+        for (const player of players) {
+            if (!player.alive) continue;
+            positions.set(player.id, { x: player.x, y: player.y });
+        }
+        this.frames.push({ tMs, positions });
+        const cutoff = tMs - this.windowMs;
+        while (this.frames.length > 2 && this.frames[1].tMs <= cutoff) {
+            this.frames.shift();
+        }
+    }
+
+    sample(playerId: string, tMs: number): Vec2 | null {
+        for (let i = this.frames.length - 1; i >= 0; i -= 1) {
+            const a = this.frames[i];
+            if (a.tMs > tMs) continue;
+            const posA = a.positions.get(playerId);
+            if (!posA) return null;
+            const b = this.frames[i + 1];
+            const posB = b?.positions.get(playerId);
+            if (!b || !posB) return { x: posA.x, y: posA.y };
+            const alpha = (tMs - a.tMs) / Math.max(1, b.tMs - a.tMs);
+            return {
+                x: posA.x + (posB.x - posA.x) * alpha,
+                y: posA.y + (posB.y - posA.y) * alpha,
+            };
+        }
+        return null;
+    }
+
+    clear(): void {
+        this.frames = [];
+    }
+}
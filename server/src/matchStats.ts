@@ -0,0 +1,202 @@
+import type {
+    AbilityType,
+    MatchAward,
+    MatchSummary,
+    PlayerMatchStats,
+    PlayerState,
+} from "../../shared/protocol";
+
+const SHARPSHOOTER_MIN_SHOTS = 10;
+
+type Tally = {
+    shots: number;
+    hits: number;
+    damageDealt: number;
+    damageTaken: number;
+    abilityUses: Partial<Record<AbilityType, number>>;
+    streak: number;
+    longestStreak: number;
+    echoKills: number;
+    portalKills: number;
+    strikeMultiKills: number;
+};
+
+type AwardRule = {
+    title: string;
+    min: number;
+    value: (stats: PlayerMatchStats) => number;
+    detail: (stats: PlayerMatchStats) => string;
+};
+
+const createTally = (): Tally => ({
+    shots: 0,
+    hits: 0,
+    damageDealt: 0,
+    damageTaken: 0,
+    abilityUses: {},
+    streak: 0,
+    longestStreak: 0,
+    echoKills: 0,
+    portalKills: 0,
+    strikeMultiKills: 0,
+});
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+const totalAbilityUses = (stats: PlayerMatchStats) =>
+    Object.values(stats.abilityUses).reduce((sum, count) => sum + (count ?? 0), 0);
+
+// checked in order; each goes to the first pilot with the highest value at or above min
+const AWARD_RULES: AwardRule[] = [
+    {
+        title: "Sharpshooter",
+        min: 0.01,
+        value: (stats) => (stats.shots >= SHARPSHOOTER_MIN_SHOTS ? stats.accuracy : 0),
+        detail: (stats) => `${Math.round(stats.accuracy * 100)}% accuracy`,
+    },
+    {
+        title: "Heavy Hitter",
+        min: 1,
+        value: (stats) => stats.damageDealt,
+        detail: (stats) => `${stats.damageDealt} damage dealt`,
+    },
+    {
+        title: "Unstoppable",
+        min: 3,
+        value: (stats) => stats.longestStreak,
+        detail: (stats) => `${stats.longestStreak} kills in a row`,
+    },
+    {
+        title: "Echo Chamber",
+        min: 1,
+        value: (stats) => stats.echoKills,
+        detail: (stats) => `${plural(stats.echoKills, "kill")} by their echo`,
+    },
+    {
+        title: "Portal Prankster",
+        min: 1,
+        value: (stats) => stats.portalKills,
+        detail: (stats) => `${plural(stats.portalKills, "kill")} through a portal`,
+    },
+    {
+        title: "Carpet Bomber",
+        min: 1,
+        value: (stats) => stats.strikeMultiKills,
+        detail: (stats) => plural(stats.strikeMultiKills, "strike multi-kill"),
+    },
+    {
+        title: "Gadgeteer",
+        min: 3,
+        value: totalAbilityUses,
+        detail: (stats) => `${totalAbilityUses(stats)} abilities used`,
+    },
+    {
+        title: "Punching Bag",
+        min: 1,
+        value: (stats) => stats.damageTaken,
+        detail: (stats) => `${stats.damageTaken} damage taken`,
+    },
+];
+
+// per-match tallies behind the end-of-match summary; reset when a match starts
+export class MatchStats {
+    private tallies = new Map<string, Tally>();
+
+    reset(): void {
+        this.tallies.clear();
+    }
+
+    recordShot(playerId: string): void {
+        this.getTally(playerId).shots += 1;
+    }
+
+    recordHit(playerId: string): void {
+        this.getTally(playerId).hits += 1;
+    }
+
+    // byId is undefined for damage nobody dealt, like the lms storm
+    recordDamage(byId: string | undefined, targetId: string, damage: number): void {
+        if (damage <= 0) return;
+        this.getTally(targetId).damageTaken += damage;
+        if (byId && byId !== targetId) {
+            this.getTally(byId).damageDealt += damage;
+        }
+    }
+
+    recordAbility(playerId: string, ability: AbilityType): void {
+        const uses = this.getTally(playerId).abilityUses;
+        uses[ability] = (uses[ability] ?? 0) + 1;
+    }
+
+    recordKill(
+        killerId: string | undefined,
+        victimId: string,
+        via?: "echo" | "portal",
+    ): void {
+        const victim = this.tallies.get(victimId);
+        if (victim) victim.streak = 0;
+        if (!killerId || killerId === victimId) return;
+        const killer = this.getTally(killerId);
+        killer.streak += 1;
+        killer.longestStreak = Math.max(killer.longestStreak, killer.streak);
+        if (via === "echo") killer.echoKills += 1;
+        if (via === "portal") killer.portalKills += 1;
+    }
+
+    recordStrike(playerId: string, kills: number): void {
+        if (kills >= 2) this.getTally(playerId).strikeMultiKills += 1;
+    }
+
+    summarize(players: PlayerState[]): MatchSummary {
+        const stats = players
+            .map((player) => this.statsFor(player))
+            .sort((a, b) => b.kills - a.kills || a.deaths - b.deaths);
+        const awards: MatchAward[] = [];
+        for (const rule of AWARD_RULES) {
+            let best: PlayerMatchStats | null = null;
+            for (const entry of stats) {
+                if (rule.value(entry) < rule.min) continue;
+                if (!best || rule.value(entry) > rule.value(best)) best = entry;
+            }
+            if (!best) continue;
+            awards.push({
+                title: rule.title,
+                playerId: best.playerId,
+                name: best.name,
+                detail: rule.detail(best),
+            });
+        }
+        return { players: stats, awards };
+    }
+
+    private statsFor(player: PlayerState): PlayerMatchStats {
+        const tally = this.tallies.get(player.id) ?? createTally();
+        return {
+            playerId: player.id,
+            name: player.name,
+            team: player.team,
+            isBot: !!player.isBot,
+            kills: player.kills,
+            deaths: player.deaths,
+            shots: tally.shots,
+            hits: tally.hits,
+            accuracy: tally.shots > 0 ? Math.min(1, tally.hits / tally.shots) : 0,
+            damageDealt: tally.damageDealt,
+            damageTaken: tally.damageTaken,
+            abilityUses: { ...tally.abilityUses },
+            longestStreak: tally.longestStreak,
+            echoKills: tally.echoKills,
+            portalKills: tally.portalKills,
+            strikeMultiKills: tally.strikeMultiKills,
+        };
+    }
+
+    private getTally(playerId: string): Tally {
+        let tally = this.tallies.get(playerId);
+        if (!tally) {
+            tally = createTally();
+            this.tallies.set(playerId, tally);
+        }
+        return tally;
+    }
+}
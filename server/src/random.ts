@@ -0,0 +1,16 @@
+// returns floats in [0, 1) like Math.random
+export type Random = () => number;
+
+// mulberry32: tiny, fast and good enough for gameplay; the same seed always gives the same stream
+export const createRandom = (seed: number): Random => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 0x100000000);
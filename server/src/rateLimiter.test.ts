@@ -0,0 +1,131 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ClientEventName } from "../../shared/validation";
+import type { Clock } from "./clock";
+import {
+    DEFAULT_RATE_LIMITS,
+    RateLimiter,
+    TokenBucket,
+    parseRateLimits,
+    type RateLimits,
+    type RateVerdict,
+} from "./rateLimiter";
+
+const fakeClock = (startMs = 1_000_000) => {
+    let nowMs = startMs;
+    const clock: Clock = () => nowMs;
+    return { clock, advance: (ms: number) => (nowMs += ms) };
+};
+
+const LIMITS: RateLimits = {
+    "room:join": { burst: 3, perSecond: 1 },
+    "net:ping": { burst: 2, perSecond: 2 },
+    "chat:send": { burst: 2, perSecond: 1 },
+};
+
+const repeat = (limiter: RateLimiter, event: ClientEventName, n: number) =>
+    Array.from({ length: n }, (): RateVerdict => limiter.check(event));
+
+describe("TokenBucket", () => {
+    it("starts full and empties after burst takes", () => {
+        const bucket = new TokenBucket({ burst: 3, perSecond: 1 }, 0);
+        assert.deepEqual([0, 0, 0, 0].map((t) => bucket.take(t)), [true, true, true, false]);
+    });
+
+    it("refills at perSecond and never beyond burst", () => {
+        const bucket = new TokenBucket({ burst: 2, perSecond: 4 }, 0);
+        bucket.take(0);
+        bucket.take(0);
+        assert.equal(bucket.take(100), false); // 0.4 tokens
+        assert.equal(bucket.take(250), true); // 1.0 tokens
+        assert.equal(bucket.take(10_250), true);
+        assert.equal(bucket.take(10_250), true);
+        assert.equal(bucket.take(10_250), false);
+    });
+
+    it("ignores a clock that goes backwards", () => {
+        const bucket = new TokenBucket({ burst: 1, perSecond: 1 }, 5000);
+        assert.equal(bucket.take(5000), true);
+        assert.equal(bucket.take(1000), false);
+    });
+});
+
+describe("RateLimiter", () => {
+    it("allows a burst and then limits", () => {
+        const { clock } = fakeClock();
+        const limiter = new RateLimiter(LIMITS, clock);
+        assert.deepEqual(repeat(limiter, "room:join", 4), ["ok", "ok", "ok", "limited"]);
+    });
+
+    it("refills with time", () => {
+        const { clock, advance } = fakeClock();
+        const limiter = new RateLimiter(LIMITS, clock);
+        repeat(limiter, "room:join", 3);
+        advance(999);
+        assert.equal(limiter.check("room:join"), "limited");
+        advance(1);
+        assert.equal(limiter.check("room:join"), "ok");
+        advance(60_000);
+        assert.deepEqual(repeat(limiter, "room:join", 4), ["ok", "ok", "ok", "limited"]);
+    });
+
+    it("keeps a separate bucket per event", () => {
+        const { clock } = fakeClock();
+        const limiter = new RateLimiter(LIMITS, clock);
+        repeat(limiter, "room:join", 3);
+        assert.equal(limiter.check("room:join"), "limited");
+        assert.deepEqual(repeat(limiter, "net:ping", 3), ["ok", "ok", "limited"]);
+    });
+
+    it("lets events without a limit through", () => {
+        const { clock } = fakeClock();
+        const limiter = new RateLimiter(LIMITS, clock);
+        assert.ok(repeat(limiter, "state:ack", 100).every((verdict) => verdict === "ok"));
+    });
+
+    it("mutes chat after repeated violations and lifts the mute later", () => {
+        const { clock, advance } = fakeClock();
+        const limiter = new RateLimiter(LIMITS, clock);
+        const verdicts = repeat(limiter, "chat:send", 6);
+        assert.deepEqual(verdicts, ["ok", "ok", "limited", "limited", "limited", "muted"]);
+        assert.equal(limiter.getMuteRemainingMs(), 30_000);
+        advance(10_000);
+        assert.equal(limiter.check("chat:send"), "muted");
+        assert.equal(limiter.getMuteRemainingMs(), 20_000);
+        advance(20_000);
+        assert.equal(limiter.check("chat:send"), "ok");
+    });
+
+    it("reports a socket that keeps flooding as abusive", () => {
+        const { clock } = fakeClock();
+        const limiter = new RateLimiter(LIMITS, clock);
+        const verdicts = repeat(limiter, "net:ping", 2 + 20 + 1);
+        assert.equal(verdicts.filter((verdict) => verdict === "limited").length, 20);
+        assert.equal(verdicts.at(-1), "abusive");
+    });
+
+    it("forgives violations spread out over time", () => {
+        const { clock, advance } = fakeClock();
+        const limiter = new RateLimiter(LIMITS, clock);
+        for (let i = 0; i < 60; i += 1) {
+            repeat(limiter, "net:ping", 3);
+            advance(2000);
+        }
+        assert.notEqual(limiter.check("net:ping"), "abusive");
+    });
+});
+
+describe("parseRateLimits", () => {
+    it("overrides known events and keeps the rest", () => {
+        const limits = parseRateLimits("chat:send=10/2, room:create=1/0.1", DEFAULT_RATE_LIMITS);
+        assert.deepEqual(limits["chat:send"], { burst: 10, perSecond: 2 });
+        assert.deepEqual(limits["room:create"], { burst: 1, perSecond: 0.1 });
+        assert.deepEqual(limits["room:join"], DEFAULT_RATE_LIMITS["room:join"]);
+    });
+
+    it("skips malformed entries and unknown events", () => {
+        const spec = "chat:send=abc,nope=1/1,room:join=0/1,net:ping=3/-1,state:ack";
+        assert.deepEqual(parseRateLimits(spec, DEFAULT_RATE_LIMITS), DEFAULT_RATE_LIMITS);
+        assert.deepEqual(parseRateLimits(undefined, DEFAULT_RATE_LIMITS), DEFAULT_RATE_LIMITS);
+    });
+});
@@ -0,0 +1,122 @@
+import type { ClientEventName } from "../../shared/validation";
+import { systemClock, type Clock } from "./clock";
+
+export type RateLimitConfig = {
+    burst: number; // bucket size
+    perSecond: number; // refill rate
+};
+
+export type RateLimits = Partial<Record<ClientEventName, RateLimitConfig>>;
+
+// "limited" drops the packet, "muted" drops chat during a mute, "abusive" means disconnect
+export type RateVerdict = "ok" | "limited" | "muted" | "abusive";
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+    "hello": { burst: 2, perSecond: 0.2 },
+    "room:create": { burst: 3, perSecond: 0.2 },
+    "room:join": { burst: 5, perSecond: 0.5 },
+    "room:spectate": { burst: 5, perSecond: 0.5 },
+    "room:resume": { burst: 3, perSecond: 0.2 },
+    "player:input": { burst: 30, perSecond: 25 },
+    "strike:confirm": { burst: 3, perSecond: 2 },
+    "portal:placeB": { burst: 3, perSecond: 2 },
+    "player:ready": { burst: 4, perSecond: 1 },
+    "match:configure": { burst: 5, perSecond: 2 },
+    "match:start": { burst: 2, perSecond: 0.5 },
+    "match:restart": { burst: 2, perSecond: 0.5 },
+    "room:kick": { burst: 5, perSecond: 1 },
+    "room:ban": { burst: 5, perSecond: 1 },
+    "chat:mute": { burst: 5, perSecond: 1 },
+    "invite:create": { burst: 5, perSecond: 0.5 },
+    "state:ack": { burst: 40, perSecond: 30 },
+    "net:ping": { burst: 3, perSecond: 2 },
+    "chat:send": { burst: 5, perSecond: 1 },
+};
+
+// violations a socket may rack up before it is dropped; refills slowly so bursts are forgiven
+const ABUSE_LIMIT: RateLimitConfig = { burst: 20, perSecond: 0.5 };
+// chat violations before a mute
+const CHAT_STRIKE_LIMIT: RateLimitConfig = { burst: 3, perSecond: 0.1 };
+const CHAT_MUTE_MS = 30000;
+
+export class TokenBucket {
+    private config: RateLimitConfig;
+    private tokens: number;
+    private updatedAtMs: number;
+
+    constructor(config: RateLimitConfig, nowMs: number) {
+        this.config = config;
+        this.tokens = config.burst;
+        this.updatedAtMs = nowMs;
+    }
+
+    take(nowMs: number, cost = 1): boolean {
+        const elapsedSec = Math.max(0, nowMs - this.updatedAtMs) / 1000;
+        this.tokens = Math.min(this.config.burst, this.tokens + elapsedSec * this.config.perSecond);
+        this.updatedAtMs = nowMs;
+        if (this.tokens < cost) return false;
+        this.tokens -= cost;
+        return true;
+    }
+}
+
+// one per socket
+export class RateLimiter {
+    private limits: RateLimits;
+    private clock: Clock;
+    private buckets = new Map<ClientEventName, TokenBucket>();
+    private abuse: TokenBucket;
+    private chatStrikes: TokenBucket;
+    private mutedUntilMs = 0;
+
+    constructor(limits: RateLimits, clock: Clock = systemClock) {
+        this.limits = limits;
+        this.clock = clock;
+        const nowMs = clock();
+        this.abuse = new TokenBucket(ABUSE_LIMIT, nowMs);
+        this.chatStrikes = new TokenBucket(CHAT_STRIKE_LIMIT, nowMs);
+    }
+
+    check(event: ClientEventName): RateVerdict {
+        const nowMs = this.clock();
+        if (event === "chat:send" && nowMs < this.mutedUntilMs) {
+            return this.violation(nowMs, "muted");
+        }
+        const config = this.limits[event];
+        if (!config) return "ok";
+        let bucket = this.buckets.get(event);
+        if (!bucket) {
+            bucket = new TokenBucket(config, nowMs);
+            this.buckets.set(event, bucket);
+        }
+        if (bucket.take(nowMs)) return "ok";
+        if (event === "chat:send" && !this.chatStrikes.take(nowMs)) {
+            this.mutedUntilMs = nowMs + CHAT_MUTE_MS;
+            return this.violation(nowMs, "muted");
+        }
+        return this.violation(nowMs, "limited");
+    }
+
+    getMuteRemainingMs(): number {
+        return Math.max(0, this.mutedUntilMs - this.clock());
+    }
+
+    private violation(nowMs: number, verdict: "limited" | "muted"): RateVerdict {
+        return this.abuse.take(nowMs) ? verdict : "abusive";
+    }
+}
+
+// RATE_LIMITS="chat:send=5/1,room:create=3/0.2" overrides burst/perSecond per event
+export const parseRateLimits = (value: string | undefined, base: RateLimits): RateLimits => {
+    const limits: RateLimits = { ...base };
+    if (!value) return limits;
+    for (const entry of value.split(",")) {
+        const [event, spec] = entry.trim().split("=");
+        const [burst, perSecond] = (spec ?? "").split("/").map(Number);
+        if (!event || !(event in base)) continue;
+        if (!Number.isFinite(burst) || !Number.isFinite(perSecond)) continue;
+        if (burst <= 0 || perSecond < 0) continue;
+        limits[event as ClientEventName] = { burst, perSecond };
+    }
+    return limits;
+};
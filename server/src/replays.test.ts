@@ -0,0 +1,225 @@
+import * as assert from "node:assert/strict";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { gunzipSync, gzipSync } from "node:zlib";
+import type { GameMode, PlayerInput } from "../../shared/protocol";
+import { REPLAY_FORMAT_VERSION, type CommandReplay } from "../../shared/replay";
+import { FrameRecorder, ReplayStore, createReplayHandler, expandReplay } from "./replays";
+import { GameSimulation, TICK_MS, type SimulationConfig } from "./simulation";
+
+const config = (mode: GameMode): SimulationConfig => ({
+    id: "ROOM01",
+    maxPlayers: 6,
+    fillWithBots: true,
+    botCount: 3,
+    botDifficulty: "normal",
+    maxHp: 3,
+    hostId: "",
+    maxRewindMs: 250,
+    seed: 1234,
+    startTimeMs: 1_700_000_000_000,
+    mode,
+    teamCount: 2,
+    friendlyFire: false,
+    scoreLimit: 0,
+    hillRelocateSec: 45,
+    lives: 3,
+    roundCount: 3,
+});
+
+// circles the arena centre, shooting and using items now and then
+const scriptedInput = (seq: number): PlayerInput => ({
+    seq,
+    dt: TICK_MS,
+    keys: {
+        up: seq % 80 < 20,
+        right: seq % 80 >= 20 && seq % 80 < 40,
+        down: seq % 80 >= 40 && seq % 80 < 60,
+        left: seq % 80 >= 60,
+    },
+    aim: { x: 600 + (seq % 50) * 4, y: 400 - (seq % 30) * 5 },
+    shoot: seq % 7 < 3,
+    useItem: seq % 45 === 0,
+});
+
+// plays a lobby, an abandoned match and most of a second one, recording the second live
+const playLive = (mode: GameMode) => {
+    const simulation = new GameSimulation(config(mode));
+    simulation.setCommandLogging(true);
+    simulation.addPlayer({ id: "p1", name: "Alice" });
+    simulation.addPlayer({ id: "p2", name: "Bob" });
+    simulation.ensureBots();
+    let seq = 0;
+    let recorder: FrameRecorder | null = null;
+    const run = (ticks: number) => {
+        for (let i = 0; i < ticks; i += 1) {
+            seq += 1;
+            simulation.queueInput("p1", scriptedInput(seq));
+            simulation.queueInput("p2", scriptedInput(seq + 17));
+            if (seq % 20 === 0) simulation.reportRtt("p1", 40 + (seq % 60));
+            const result = simulation.step();
+            const startedAtMs = simulation.match.startedAtMs;
+            if (recorder && startedAtMs !== undefined && result.timeMs > startedAtMs) {
+                recorder.record(simulation, result);
+            }
+        }
+    };
+    run(40);
+    simulation.startMatch();
+    run(300);
+    simulation.restartMatch();
+    run(40);
+    simulation.startMatch();
+    recorder = new FrameRecorder("ROOM01");
+    run(500);
+    return { simulation, frames: recorder.frames };
+};
+
+const toReplay = (simulation: GameSimulation): CommandReplay => {
+    const log = simulation.getCommandLog();
+    assert.ok(log);
+    return {
+        version: REPLAY_FORMAT_VERSION,
+        kind: "commands",
+        roomId: "ROOM01",
+        startedAtMs: simulation.match.startedAtMs ?? 0,
+        endedAtMs: simulation.getTimeMs(),
+        tickMs: TICK_MS,
+        players: [],
+        config: simulation.getConfig(),
+        checkpoint: JSON.parse(JSON.stringify(log.checkpoint)),
+        endTick: simulation.getTick(),
+        commands: JSON.parse(JSON.stringify(log.commands)),
+    };
+};
+
+describe("command replays", () => {
+    for (const mode of ["ffa", "ctf", "lms"] as const) {
+        it(`re-simulate the ${mode} match from its countdown checkpoint`, async () => {
+            const { simulation, frames } = playLive(mode);
+            const replay = toReplay(simulation);
+            assert.ok(replay.checkpoint && replay.checkpoint.tick > 300);
+            const expanded = await expandReplay(replay);
+            assert.equal(expanded.frames.length, frames.length);
+            assert.deepEqual(
+                JSON.parse(JSON.stringify(expanded.frames)),
+                JSON.parse(JSON.stringify(frames)),
+            );
+        });
+    }
+
+    it("only logs while enabled and between a countdown and the return to the lobby", () => {
+        const simulation = new GameSimulation(config("ffa"));
+        simulation.addPlayer({ id: "p1", name: "Alice" });
+        simulation.startMatch();
+        assert.equal(simulation.getCommandLog(), null);
+        simulation.restartMatch();
+
+        simulation.setCommandLogging(true);
+        simulation.queueInput("p1", scriptedInput(1));
+        assert.equal(simulation.getCommandLog(), null);
+        simulation.startMatch();
+        simulation.queueInput("p1", scriptedInput(2));
+        assert.deepEqual(
+            simulation.getCommandLog()?.commands.map((entry) => entry.command.type),
+            ["input"],
+        );
+        simulation.restartMatch();
+        assert.equal(simulation.getCommandLog(), null);
+    });
+});
+
+describe("ReplayStore", () => {
+    let dir = "";
+    let replay: CommandReplay;
+
+    before(async () => {
+        dir = await mkdtemp(join(tmpdir(), "replays-"));
+        replay = toReplay(playLive("ffa").simulation);
+    });
+
+    after(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it("expands a command replay once and serves the cached snapshots", async () => {
+        const store = new ReplayStore(dir);
+        const id = await store.save(replay);
+        const body = await store.loadSnapshots(id);
+        assert.ok(body);
+        const served = JSON.parse(gunzipSync(body).toString("utf8"));
+        assert.deepEqual(served, JSON.parse(JSON.stringify(await expandReplay(replay))));
+        assert.deepEqual((await readdir(dir)).sort(), [
+            `${id}.replay.json.gz`,
+            `${id}.snapshots.json.gz`,
+        ]);
+        // a fresh store finds the cache instead of re-simulating
+        assert.deepEqual(await new ReplayStore(dir).loadSnapshots(id), body);
+        assert.deepEqual(await store.list(), [
+            { id, roomId: "ROOM01", startedAtMs: replay.startedAtMs },
+        ]);
+    });
+
+    it("refuses command replays from another format version", async () => {
+        const store = new ReplayStore(dir);
+        for (const version of [REPLAY_FORMAT_VERSION - 1, REPLAY_FORMAT_VERSION + 1]) {
+            const other = { ...replay, version, startedAtMs: version };
+            const id = `ROOM01-${version}`;
+            await writeFile(join(dir, `${id}.replay.json.gz`), gzipSync(JSON.stringify(other)));
+            assert.equal(await store.load(id), null);
+            assert.equal(await store.loadSnapshots(id), null);
+        }
+    });
+
+    it("refuses ids outside the naming scheme", async () => {
+        const store = new ReplayStore(dir);
+        assert.equal(await store.loadSnapshots("../etc-1"), null);
+        assert.equal(await store.loadSnapshots("ROOM01-1"), null);
+    });
+});
+
+describe("createReplayHandler", () => {
+    const serve = async (token: string | undefined) => {
+        const dir = await mkdtemp(join(tmpdir(), "replays-"));
+        const server = createServer(createReplayHandler(new ReplayStore(dir), token, "*"));
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        const { port } = server.address() as AddressInfo;
+        return {
+            url: `http://127.0.0.1:${port}/replays`,
+            close: async () => {
+                await new Promise((resolve) => server.close(resolve));
+                await rm(dir, { recursive: true, force: true });
+            },
+        };
+    };
+
+    it("is disabled without an admin token", async () => {
+        const { url, close } = await serve(undefined);
+        const response = await fetch(url, { headers: { Authorization: "Bearer x" } });
+        assert.equal(response.status, 404);
+        await close();
+    });
+
+    it("takes the admin token", async () => {
+        const { url, close } = await serve("secret");
+        assert.equal((await fetch(url)).status, 401);
+        const wrong = await fetch(url, { headers: { Authorization: "Bearer secreT" } });
+        assert.equal(wrong.status, 401);
+        const right = await fetch(url, { headers: { Authorization: "Bearer secret" } });
+        assert.equal(right.status, 200);
+        assert.deepEqual(await right.json(), { replays: [] });
+        await close();
+    });
+
+    it("answers the CORS preflight for the Authorization header", async () => {
+        const { url, close } = await serve("secret");
+        const response = await fetch(url, { method: "OPTIONS" });
+        assert.equal(response.status, 204);
+        assert.equal(response.headers.get("access-control-allow-headers"), "Authorization");
+        await close();
+    });
+});
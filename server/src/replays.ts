@@ -0,0 +1,269 @@
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { gunzip, gzip } from "node:zlib";
+import type { SnapshotDelta } from "../../shared/protocol";
+import {
+    REPLAY_FORMAT_VERSION,
+    replayId,
+    type CommandReplay,
+    type Replay,
+    type ReplaySummary,
+    type SnapshotReplay,
+} from "../../shared/replay";
+import { tokenMatches } from "./admin";
+import { DeltaTracker, serializeEntities } from "./deltaTracker";
+import { replayCommandLog, type GameSimulation, type StepResult } from "./simulation";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+const REPLAY_SUFFIX = ".replay.json.gz";
+// the snapshot replay viewers are sent, cached next to the recorded file
+const SNAPSHOTS_SUFFIX = ".snapshots.json.gz";
+const REPLAY_ID_PATTERN = /^[A-Z0-9]+-\d+$/;
+// simulation steps (or frames serialized) between yields, so that expanding a replay never
+// holds up the rooms' ticks for long
+const EXPAND_BATCH_STEPS = 100;
+
+const nextTurn = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+// builds the delta chain of a snapshot replay, one frame per simulation step
+export class FrameRecorder {
+    readonly frames: SnapshotDelta[] = [];
+    private roomId: string;
+    private tracker = new DeltaTracker();
+    private nextId = 0;
+
+    constructor(roomId: string) {
+        this.roomId = roomId;
+    }
+
+    record(simulation: GameSimulation, result: StepResult): void {
+        const id = this.nextId++;
+        const entities = simulation.getEntities();
+        // the simulation keeps mutating its entities, so frames hold copies
+        this.frames.push(
+            structuredClone({
+                id,
+                t: result.timeMs,
+                roomId: this.roomId,
+                you: { playerId: "", ackSeq: 0 },
+                events: result.events,
+                match: simulation.match,
+                ...this.tracker.build(id, entities, serializeEntities(entities)),
+            }),
+        );
+        this.tracker.ack(id);
+    }
+}
+
+// re-runs a command replay and keeps only the frames that belong to the match
+export const expandReplay = async (replay: CommandReplay): Promise<SnapshotReplay> => {
+    const recorder = new FrameRecorder(replay.roomId);
+    const { config, checkpoint, commands, endTick } = replay;
+    let steps = 0;
+    await replayCommandLog(config, checkpoint, commands, endTick, (simulation, result) => {
+        if (result.timeMs > replay.startedAtMs) recorder.record(simulation, result);
+        steps += 1;
+        return steps % EXPAND_BATCH_STEPS === 0 ? nextTurn() : undefined;
+    });
+    return {
+        version: replay.version,
+        kind: "snapshots",
+        roomId: replay.roomId,
+        startedAtMs: replay.startedAtMs,
+        endedAtMs: replay.endedAtMs,
+        tickMs: replay.tickMs,
+        players: replay.players,
+        frames: recorder.frames,
+    };
+};
+
+const serializeSnapshots = async ({ frames, ...header }: SnapshotReplay): Promise<string> => {
+    const parts: string[] = [];
+    for (let i = 0; i < frames.length; i += EXPAND_BATCH_STEPS) {
+        for (const frame of frames.slice(i, i + EXPAND_BATCH_STEPS)) {
+            parts.push(JSON.stringify(frame));
+        }
+        await nextTurn();
+    }
+    return `${JSON.stringify(header).slice(0, -1)},"frames":[${parts.join(",")}]}`;
+};
+
+// gzipped JSON files in one directory, named after replayId()
+export class ReplayStore {
+    private dir: string;
+    // expansions still running, so a request waits for the one already under way
+    private expanding = new Map<string, Promise<Buffer>>();
+
+    constructor(dir: string) {
+        this.dir = dir;
+    }
+
+    // command replays are expanded in the background right away, so viewers never wait on
+    // a re-simulation
+    async save(replay: Replay): Promise<string> {
+        const id = replayId(replay);
+        const body = await gzipAsync(JSON.stringify(replay));
+        await mkdir(this.dir, { recursive: true });
+        await writeFile(this.pathFor(id, REPLAY_SUFFIX), body);
+        if (replay.kind === "snapshots") {
+            await writeFile(this.pathFor(id, SNAPSHOTS_SUFFIX), body);
+        } else {
+            this.expand(id, replay).catch((error: unknown) =>
+                console.warn("replay not expanded", id, error),
+            );
+        }
+        return id;
+    }
+
+    async list(): Promise<ReplaySummary[]> {
+        let names: string[];
+        try {
+            names = await readdir(this.dir);
+        } catch {
+            return [];
+        }
+        return names
+            .filter((name) => name.endsWith(REPLAY_SUFFIX))
+            .map((name) => name.slice(0, -REPLAY_SUFFIX.length))
+            .filter((id) => REPLAY_ID_PATTERN.test(id))
+            .map((id) => {
+                const split = id.lastIndexOf("-");
+                return {
+                    id,
+                    roomId: id.slice(0, split),
+                    startedAtMs: Number(id.slice(split + 1)),
+                };
+            })
+            .sort((a, b) => b.startedAtMs - a.startedAtMs);
+    }
+
+    async load(id: string): Promise<Replay | null> {
+        if (!REPLAY_ID_PATTERN.test(id)) return null;
+        try {
+            const raw = await readFile(this.pathFor(id, REPLAY_SUFFIX));
+            const replay = JSON.parse((await gunzipAsync(raw)).toString("utf8")) as Replay;
+            return replay.version === REPLAY_FORMAT_VERSION ? replay : null;
+        } catch {
+            return null;
+        }
+    }
+
+    // the snapshot replay as gzipped JSON, expanded and cached on first use for replays
+    // recorded before the cache existed
+    async loadSnapshots(id: string): Promise<Buffer | null> {
+        if (!REPLAY_ID_PATTERN.test(id)) return null;
+        const pending = this.expanding.get(id);
+        if (pending) return pending;
+        try {
+            return await readFile(this.pathFor(id, SNAPSHOTS_SUFFIX));
+        } catch {
+            // not cached yet
+        }
+        const replay = await this.load(id);
+        if (!replay) return null;
+        if (replay.kind === "commands") return this.expanding.get(id) ?? this.expand(id, replay);
+        const body = await gzipAsync(JSON.stringify(replay));
+        await writeFile(this.pathFor(id, SNAPSHOTS_SUFFIX), body);
+        return body;
+    }
+
+    private expand(id: string, replay: CommandReplay): Promise<Buffer> {
+        const run = (async () => {
+            const body = await gzipAsync(await serializeSnapshots(await expandReplay(replay)));
+            await writeFile(this.pathFor(id, SNAPSHOTS_SUFFIX), body);
+            return body;
+        })().finally(() => this.expanding.delete(id));
+        this.expanding.set(id, run);
+        return run;
+    }
+
+    private pathFor(id: string, suffix: string): string {
+        return join(this.dir, `${id}${suffix}`);
+    }
+}
+
+const corsHeaders = (corsOrigin: string): Record<string, string> => ({
+    "Access-Control-Allow-Origin": corsOrigin,
+    "Access-Control-Allow-Headers": "Authorization",
+    "Access-Control-Allow-Methods": "GET",
+});
+
+const acceptsGzip = (req: IncomingMessage): boolean =>
+    /\bgzip\b/.test(String(req.headers["accept-encoding"] ?? ""));
+
+// body is gzipped JSON, sent as is to clients that take gzip
+const sendGzippedJson = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    corsOrigin: string,
+    status: number,
+    body: Buffer,
+) => {
+    const headers = { ...corsHeaders(corsOrigin), "Content-Type": "application/json" };
+    if (acceptsGzip(req)) {
+        res.writeHead(status, { ...headers, "Content-Encoding": "gzip" });
+        res.end(body);
+        return;
+    }
+    res.writeHead(status, headers);
+    res.end(await gunzipAsync(body));
+};
+
+const sendJson = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    corsOrigin: string,
+    status: number,
+    body: unknown,
+) => {
+    const headers: Record<string, string> = {
+        ...corsHeaders(corsOrigin),
+        "Content-Type": "application/json",
+    };
+    let payload: string | Buffer = JSON.stringify(body);
+    if (acceptsGzip(req)) {
+        payload = await gzipAsync(payload);
+        headers["Content-Encoding"] = "gzip";
+    }
+    res.writeHead(status, headers);
+    res.end(payload);
+};
+
+// GET /replays lists recorded matches, GET /replays/:id returns one as a snapshot replay.
+// Both take the admin token and, like the admin API, are disabled unless ADMIN_TOKEN is set.
+export const createReplayHandler =
+    (store: ReplayStore | null, token: string | undefined, corsOrigin: string) =>
+    async (req: IncomingMessage, res: ServerResponse) => {
+        const path = (req.url ?? "").split("?")[0];
+        if (req.method === "OPTIONS") {
+            res.writeHead(204, corsHeaders(corsOrigin));
+            res.end();
+            return;
+        }
+        if (!store || !token || req.method !== "GET") {
+            await sendJson(req, res, corsOrigin, 404, { error: "Not found" });
+            return;
+        }
+        if (!tokenMatches(req.headers.authorization, token)) {
+            await sendJson(req, res, corsOrigin, 401, { error: "Unauthorized" });
+            return;
+        }
+        if (path === "/replays") {
+            await sendJson(req, res, corsOrigin, 200, { replays: await store.list() });
+            return;
+        }
+        const id = path.slice("/replays/".length);
+        const body = await store.loadSnapshots(id).catch((error: unknown) => {
+            console.warn("replay not expanded", id, error);
+            return null;
+        });
+        if (!body) {
+            await sendJson(req, res, corsOrigin, 404, { error: "Not found" });
+            return;
+        }
+        await sendGzippedJson(req, res, corsOrigin, 200, body);
+    };
@@ -0,0 +1,81 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Server } from "socket.io";
+import type { PlayerInput } from "../../shared/protocol";
+import { Room, type RoomConfig } from "./room";
+import { WireRegistry } from "./wire";
+
+const T = 1_700_000_000_000;
+
+const config = (overrides: Partial<RoomConfig> = {}): RoomConfig => ({
+    id: "ROOM01",
+    hostId: "p1",
+    maxPlayers: 2,
+    fillWithBots: false,
+    botCount: 0,
+    botDifficulty: "normal",
+    maxHp: 3,
+    maxRewindMs: 250,
+    mode: "ffa",
+    teamCount: 2,
+    friendlyFire: false,
+    scoreLimit: 0,
+    hillRelocateSec: 45,
+    lives: 3,
+    roundCount: 3,
+    isPrivate: false,
+    autoKickScore: 0,
+    maxSpectators: 4,
+    seed: 1,
+    ...overrides,
+});
+
+// a socket.io server that is never attached, so broadcasts go nowhere
+const createRoom = (overrides: Partial<RoomConfig> = {}) => {
+    let nowMs = T;
+    const room = new Room(config(overrides), new Server(), new WireRegistry(), () => nowMs);
+    room.stop();
+    return { room, advance: (ms: number) => (nowMs += ms) };
+};
+
+const input = (seq: number): PlayerInput => ({
+    seq,
+    dt: 50,
+    keys: { up: false, down: false, left: false, right: false },
+    aim: { x: 0, y: 0 },
+    shoot: false,
+    useItem: false,
+});
+
+describe("Room", () => {
+    it("keeps a single-use invite for a player turned away by a full room", async () => {
+        const { room } = createRoom({ password: "hunter2" });
+        room.addPlayer({ id: "p1", name: "Alice" });
+        room.addPlayer({ id: "p2", name: "Bob" });
+        const { token } = room.createInvite({ singleUse: true });
+        // the join handler refuses a full room before it redeems anything
+        assert.equal(await room.admit({ invite: token }), "invited");
+        assert.equal(room.isFull(), true);
+        room.removePlayer("p2");
+        assert.equal(await room.admit({ invite: token }), "invited");
+        assert.equal(room.isFull(), false);
+        assert.equal(room.redeemInvite(token), true);
+        assert.equal(await room.admit({ invite: token }), "invalid_invite");
+    });
+
+    it("decays suspicion evenly while input and reports alternate", () => {
+        const { room, advance } = createRoom();
+        room.addPlayer({ id: "p1", name: "Alice" });
+        room.handleInput("p1", input(1));
+        room.handleInput("p1", input(1)); // a replayed seq scores 2
+        const scores: number[] = [];
+        for (let seq = 2; seq <= 6; seq += 1) {
+            advance(1000);
+            // simulation time moves on its own schedule and must not matter
+            for (let step = 0; step < 7; step += 1) room.simulation.step();
+            room.handleInput("p1", input(seq));
+            scores.push(room.getSuspicionReports()[0].score);
+        }
+        assert.deepEqual(scores, [1.8, 1.6, 1.4, 1.2, 1]);
+    });
+});
@@ -0,0 +1,42 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RoomAccess } from "./roomAccess";
+
+const T = 1_700_000_000_000;
+
+describe("RoomAccess", () => {
+    it("lets everyone into a room without a password", async () => {
+        const access = new RoomAccess();
+        assert.equal(access.hasPassword, false);
+        assert.equal(await access.admit({}, T), "ok");
+        assert.equal(await access.admit({ invite: "stale" }, T), "ok");
+    });
+
+    it("checks the password against the hash", async () => {
+        const access = new RoomAccess("hunter2");
+        assert.equal(access.hasPassword, true);
+        assert.equal(await access.admit({}, T), "password_required");
+        assert.equal(await access.admit({ password: "hunter3" }, T), "wrong_password");
+        assert.equal(await access.admit({ password: "hunter2" }, T), "ok");
+    });
+
+    it("only spends a single-use invite when it is redeemed", async () => {
+        const access = new RoomAccess("hunter2");
+        const { token } = access.createInvite("ROOM01", { singleUse: true }, T);
+        const first = access.admit({ invite: token }, T);
+        const second = access.admit({ invite: token }, T);
+        assert.deepEqual(await Promise.all([first, second]), ["invited", "invited"]);
+        assert.equal(access.redeemInvite(token, T), true);
+        assert.equal(access.redeemInvite(token, T), false);
+        assert.equal(await access.admit({ invite: token }, T), "invalid_invite");
+        assert.equal(await access.admit({ invite: token, password: "hunter2" }, T), "ok");
+    });
+
+    it("expires invites after their ttl", async () => {
+        const access = new RoomAccess("hunter2");
+        const invite = access.createInvite("ROOM01", { singleUse: false, expiresInSec: 60 }, T);
+        assert.equal(await access.admit({ invite: invite.token }, T + 59_000), "invited");
+        assert.equal(await access.admit({ invite: invite.token }, T + 60_000), "invalid_invite");
+        assert.equal(access.redeemInvite(invite.token, T + 60_000), false);
+    });
+});
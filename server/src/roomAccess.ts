@@ -0,0 +1,108 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import type { InviteOptions, RoomCredentials, RoomInvite } from "../../shared/protocol";
+
+const PASSWORD_KEY_LENGTH = 32;
+const INVITE_TTL_MIN_SEC = 60;
+const INVITE_TTL_MAX_SEC = 7 * 24 * 3600;
+// oldest invites are dropped first once a room has this many outstanding
+const MAX_INVITES = 20;
+
+type PasswordHash = { salt: Buffer; hash: Buffer };
+
+type Invite = { expiresAtMs?: number; singleUse: boolean };
+
+// "invited" lets the player in on the strength of the invite alone, which redeemInvite()
+// then has to spend
+export type AdmitResult =
+    | "ok"
+    | "invited"
+    | "password_required"
+    | "wrong_password"
+    | "invalid_invite";
+
+export type AdmitDenial = Exclude<AdmitResult, "ok" | "invited">;
+
+const scryptAsync = promisify(scrypt);
+
+// scrypt is slow on purpose, so it runs on the libuv pool instead of blocking the tick loop
+const hashPassword = async (password: string, salt: Buffer): Promise<Buffer> =>
+    (await scryptAsync(password, salt, PASSWORD_KEY_LENGTH)) as Buffer;
+
+const createPasswordHash = async (password: string): Promise<PasswordHash> => {
+    const salt = randomBytes(16);
+    return { salt, hash: await hashPassword(password, salt) };
+};
+
+// who may enter a room: an optional password, stored only as a salted scrypt hash, and
+// invite tokens the host hands out
+export class RoomAccess {
+    // still being hashed right after the room is created; admit waits for it
+    private password: Promise<PasswordHash> | null;
+    private invites = new Map<string, Invite>();
+
+    constructor(password?: string) {
+        this.password = password ? createPasswordHash(password) : null;
+    }
+
+    get hasPassword(): boolean {
+        return this.password !== null;
+    }
+
+    createInvite(roomId: string, options: InviteOptions, nowMs: number): RoomInvite {
+        this.pruneInvites(nowMs);
+        while (this.invites.size >= MAX_INVITES) {
+            const oldest = this.invites.keys().next().value;
+            if (oldest === undefined) break;
+            this.invites.delete(oldest);
+        }
+        const token = randomBytes(12).toString("hex");
+        const ttlSec =
+            options.expiresInSec === undefined
+                ? undefined
+                : Math.min(INVITE_TTL_MAX_SEC, Math.max(INVITE_TTL_MIN_SEC, options.expiresInSec));
+        const invite: Invite = {
+            expiresAtMs: ttlSec === undefined ? undefined : nowMs + ttlSec * 1000,
+            singleUse: options.singleUse,
+        };
+        this.invites.set(token, invite);
+        return { roomId, token, singleUse: invite.singleUse, expiresAtMs: invite.expiresAtMs };
+    }
+
+    // a valid invite skips the password but is not used up here, since the join can still
+    // fail; rooms without a password let everyone in, so a stale invite there is ignored
+    async admit({ password, invite }: RoomCredentials, nowMs: number): Promise<AdmitResult> {
+        if (invite && this.findInvite(invite, nowMs)) return "invited";
+        if (!this.password) return "ok";
+        if (!password) return invite ? "invalid_invite" : "password_required";
+        const stored = await this.password;
+        const hash = await hashPassword(password, stored.salt);
+        return timingSafeEqual(hash, stored.hash) ? "ok" : "wrong_password";
+    }
+
+    // false when the invite ran out or expired since admit() accepted it
+    redeemInvite(token: string, nowMs: number): boolean {
+        const invite = this.findInvite(token, nowMs);
+        if (!invite) return false;
+        if (invite.singleUse) this.invites.delete(token);
+        return true;
+    }
+
+    private findInvite(token: string, nowMs: number): Invite | null {
+        const invite = this.invites.get(token);
+        if (!invite) return null;
+        if (invite.expiresAtMs !== undefined && invite.expiresAtMs <= nowMs) {
+            this.invites.delete(token);
+            return null;
+        }
+        return invite;
+    }
+
+    private pruneInvites(nowMs: number): void {
+        for (const [token, invite] of this.invites) {
+            if (invite.expiresAtMs !== undefined && invite.expiresAtMs <= nowMs) {
+                this.invites.delete(token);
+            }
+        }
+    }
+}
@@ -1,40 +1,41 @@
+import { randomBytes } from "node:crypto";
 import type { Server } from "socket.io";
 import type {
     ClientToServerEvents,
+    GameMode,
     ServerToClientEvents,
 } from "../../shared/protocol";
-import { Room, RoomPlayer } from "./room";
-
-type CreateRoomOptions = {
-    maxPlayers: number;
-    isPrivate: boolean;
-    fillWithBots: boolean;
-    botCount: number;
-    botDifficulty: "easy" | "normal" | "hard";
-    maxHp: number;
+import { Room, type RoomConfig } from "./room";
+import type { RoomPlayer } from "./simulation";
+import type { WireRegistry } from "./wire";
+
+type CreateRoomOptions = Omit<RoomConfig, "id" | "hostId">;
+
+type Session = {
+    playerId: string;
+    expiryTimer: NodeJS.Timeout | null;
 };
 
 export class RoomManager {
     private rooms = new Map<string, Room>();
     private playerToRoom = new Map<string, string>();
+    private spectatorToRoom = new Map<string, string>();
+    private sessions = new Map<string, Session>();
+    private tokenByPlayer = new Map<string, string>();
     private io: Server<ClientToServerEvents, ServerToClientEvents>;
+    private wire: WireRegistry;
 
-    constructor(io: Server<ClientToServerEvents, ServerToClientEvents>) {
+    constructor(io: Server<ClientToServerEvents, ServerToClientEvents>, wire: WireRegistry) {
         this.io = io;
+        this.wire = wire;
     }
 
     createRoom(player: RoomPlayer, options: CreateRoomOptions): Room {
         const roomId = this.createRoomId();
         const room = new Room(
-            roomId,
+            { ...options, id: roomId, hostId: player.id },
             this.io,
-            options.maxPlayers,
-            options.isPrivate,
-            options.fillWithBots,
-            options.botCount,
-            options.botDifficulty,
-            options.maxHp,
-            player.id,
+            this.wire,
         );
         room.addPlayer(player);
         this.rooms.set(roomId, room);
@@ -51,7 +52,78 @@ export class RoomManager {
         return room;
     }
 
+    spectateRoom(roomId: string, spectator: RoomPlayer): Room | null {
+        const normalizedRoomId = this.normalizeRoomId(roomId);
+        const room = this.rooms.get(normalizedRoomId);
+        if (!room) return null;
+        room.addSpectator(spectator);
+        this.spectatorToRoom.set(spectator.id, normalizedRoomId);
+        return room;
+    }
+
+    removeSpectator(spectatorId: string): string | null {
+        const roomId = this.spectatorToRoom.get(spectatorId);
+        if (!roomId) return null;
+        this.spectatorToRoom.delete(spectatorId);
+        this.rooms.get(roomId)?.removeSpectator(spectatorId);
+        return roomId;
+    }
+
+    getRoomBySpectator(spectatorId: string): Room | null {
+        const roomId = this.spectatorToRoom.get(spectatorId);
+        if (!roomId) return null;
+        return this.getRoom(roomId);
+    }
+
+    issueResumeToken(playerId: string): string {
+        this.dropSession(playerId);
+        const token = randomBytes(16).toString("hex");
+        this.sessions.set(token, { playerId, expiryTimer: null });
+        this.tokenByPlayer.set(playerId, token);
+        return token;
+    }
+
+    // keeps the player's slot for graceMs; onExpire runs if nobody resumes in time
+    parkPlayer(playerId: string, graceMs: number, onExpire: () => void): boolean {
+        const token = this.tokenByPlayer.get(playerId);
+        const session = token ? this.sessions.get(token) : undefined;
+        const room = this.getRoomByPlayer(playerId);
+        if (!session || !room || graceMs <= 0) return false;
+        if (!room.parkPlayer(playerId)) return false;
+        session.expiryTimer = setTimeout(() => {
+            session.expiryTimer = null;
+            onExpire();
+        }, graceMs);
+        return true;
+    }
+
+    resumeSession(token: string): { room: Room; playerId: string } | null {
+        const session = this.sessions.get(token);
+        if (!session) return null;
+        const room = this.getRoomByPlayer(session.playerId);
+        if (!room) {
+            this.dropSession(session.playerId);
+            return null;
+        }
+        if (session.expiryTimer) {
+            clearTimeout(session.expiryTimer);
+            session.expiryTimer = null;
+            if (!room.resumePlayer(session.playerId)) return null;
+        }
+        return { room, playerId: session.playerId };
+    }
+
+    private dropSession(playerId: string): void {
+        const token = this.tokenByPlayer.get(playerId);
+        if (!token) return;
+        const session = this.sessions.get(token);
+        if (session?.expiryTimer) clearTimeout(session.expiryTimer);
+        this.sessions.delete(token);
+        this.tokenByPlayer.delete(playerId);
+    }
+
     removePlayer(playerId: string): string | null {
+        this.dropSession(playerId);
         const roomId = this.playerToRoom.get(playerId);
         if (!roomId) return null;
         const room = this.rooms.get(roomId);
@@ -62,17 +134,33 @@ export class RoomManager {
         room.removePlayer(playerId);
         this.playerToRoom.delete(playerId);
         if (room.isEmpty()) {
-            room.stop();
-            this.rooms.delete(roomId);
+            this.closeRoom(room);
         }
         return roomId;
     }
 
+    // spectators cannot keep a room alive on their own
+    private closeRoom(room: Room): void {
+        room.stop();
+        this.rooms.delete(room.id);
+        for (const spectatorId of room.getSpectatorIds()) {
+            this.spectatorToRoom.delete(spectatorId);
+        }
+        this.io
+            .to(room.spectatorChannel)
+            .emit("error", { message: "The room was closed.", code: "room_closed" });
+        this.io.socketsLeave([room.id, room.spectatorChannel]);
+    }
+
     getRoom(roomId: string): Room | null {
         const normalizedRoomId = this.normalizeRoomId(roomId);
         return this.rooms.get(normalizedRoomId) ?? null;
     }
 
+    listRooms(): Room[] {
+        return Array.from(this.rooms.values());
+    }
+
     getRoomByPlayer(playerId: string): Room | null {
         const roomId = this.playerToRoom.get(playerId);
         if (!roomId) return null;
@@ -100,10 +188,14 @@ export class RoomManager {
         playerCount: number;
         maxPlayers: number;
         isPrivate: boolean;
+        hasPassword: boolean;
         fillWithBots: boolean;
         botCount: number;
         botDifficulty: "easy" | "normal" | "hard";
         maxHp: number;
+        spectatorCount: number;
+        maxSpectators: number;
+        mode: GameMode;
     }[] {
         return Array.from(this.rooms.values())
             .filter((room) => !room.isPrivate)
@@ -112,10 +204,14 @@ export class RoomManager {
                 playerCount: room.getPlayerCount(),
                 maxPlayers: room.maxPlayers,
                 isPrivate: room.isPrivate,
+                hasPassword: room.hasPassword,
                 fillWithBots: room.fillWithBots,
                 botCount: room.botCount,
                 botDifficulty: room.botDifficulty,
                 maxHp: room.maxHp,
+                spectatorCount: room.getSpectatorCount(),
+                maxSpectators: room.maxSpectators,
+                mode: room.mode,
             }));
     }
 }
@@ -0,0 +1,2748 @@
+import type {
+    AbilityType,
+    BotArchetype,
+    BotDifficulty,
+    PlayerInput,
+    PlayerState,
+    BulletState,
+    FlagState,
+    GameEvent,
+    GameMode,
+    MatchEndReason,
+    MatchResult,
+    MatchSettings,
+    MatchState,
+    PortalState,
+    PickupState,
+    SafeCircle,
+    TeamId,
+    WaveState,
+    ZoneState,
+} from "../../shared/protocol";
+import { ARENA, BOT_ARCHETYPES, TEAM_IDS } from "../../shared/protocol";
+import {
+    INPUT_STEP_MS,
+    PHASE_DASH_MS,
+    PLAYER_RADIUS,
+    applyMovement,
+    getPlayerMoveMult,
+    getTimeBubbleMoveMultAt,
+} from "../../shared/movement";
+import type {
+    LoggedCommand,
+    SimulationCheckpoint,
+    SimulationCommand,
+    SimulationConfig,
+} from "../../shared/replay";
+import type { SnapshotEntities } from "../../shared/snapshotDelta";
+import { PositionHistory } from "./lagCompensation";
+import { MatchStats } from "./matchStats";
+import { createRandom, type Random } from "./random";
+import { stepBullets } from "./world";
+
+export type { LoggedCommand, SimulationCheckpoint, SimulationCommand, SimulationConfig };
+
+export type RoomPlayer = {
+    id: string;
+    name: string;
+};
+
+// side effects the simulation wants delivered; `to` is a player id, otherwise everyone
+export type SimulationNotification =
+    | { type: "toast"; message: string; to?: string }
+    | { type: "match_ended"; result: MatchResult };
+
+export type StepResult = {
+    timeMs: number;
+    events: GameEvent[];
+    notifications: SimulationNotification[];
+};
+
+type ScheduledTask = {
+    atMs: number;
+    run: () => void;
+};
+
+type BufferedInput = {
+    tMs: number;
+    keys: PlayerInput["keys"];
+    aim: PlayerInput["aim"];
+    shoot: boolean;
+};
+
+type EchoMeta = {
+    expiresAtMs: number;
+    ownerId: string;
+};
+
+type Strike = {
+    id: string;
+    x: number;
+    y: number;
+    explodeAtMs: number;
+    r: number;
+    damage: number;
+    byId: string;
+};
+
+type PendingStrike = {
+    active: boolean;
+    expiresAtMs: number;
+};
+
+type PendingPortal = {
+    portal: PortalState;
+    expiresAtMs: number;
+};
+
+export const TICK_MS = 50;
+const MAX_QUEUED_INPUTS = 10;
+const CLIENT_INTERP_DELAY_MS = 120;
+const REWIND_TOLERANCE_MS = 50;
+const RESPAWN_DELAY_MS = 1500;
+const MAX_COMMAND_LOG = 200000;
+const ECHO_HP = 1;
+const ECHO_DELAY_MS = 900;
+const ECHO_LIFETIME_MS = 3500;
+const TIME_BUBBLE_RADIUS = 140;
+const TIME_BUBBLE_LIFETIME_MS = 10000;
+const TIME_BUBBLE_BULLET_MULT = 0.6;
+const SHIELD_DURATION_MS = 5000;
+const NOVA_BULLET_COUNT = 18;
+const NOVA_BULLET_SPEED = 420;
+const NOVA_BULLET_TTL_MS = 900;
+const NOVA_SPAWN_OFFSET = 10;
+const NOVA_HIT_COOLDOWN_MS = 150;
+const STRIKE_MARK_MS = 1000;
+const STRIKE_RADIUS = 120;
+const STRIKE_DAMAGE = 2;
+const STRIKE_TARGET_WINDOW_MS = 5000;
+const PORTAL_RADIUS = 22;
+const PORTAL_DURATION_MS = 10000;
+const PORTAL_PENDING_MS = 5000;
+const PORTAL_ENTITY_COOLDOWN_MS = 250;
+const PORTAL_BULLET_COOLDOWN_MS = 60;
+const PORTAL_BULLET_JUMPS = 2;
+const BOUNCER_SPEED = 220;
+const BOUNCER_TTL_MS = 12000;
+const BOUNCER_RADIUS = 36;
+const BOUNCER_DAMAGE = 1;
+const BOUNCER_BOUNCES = 6;
+const SLASH_SPEED = 480;
+const SLASH_TTL_MS = 3000;
+const SLICE_RADIUS = 48;
+const SLASH_DAMAGE = 5;
+const SLASH_REFLECTS = 20;
+const BULLET_SPEED = 520;
+const BULLET_TTL_MS = 1200;
+const FIRE_COOLDOWN_MS = 1000 / 6;
+const PICKUP_COUNT = 6;
+const PICKUP_RADIUS = 12;
+const PICKUP_PADDING = 40;
+const PICKUP_RESPAWN_MS = 10000;
+const RIFT_SNIPER_RESPAWN_MS = 45000;
+const RIFT_SNIPER_MAX = 1;
+const FLAG_PICKUP_RADIUS = 16;
+const FLAG_CAPTURE_RADIUS = 40;
+const FLAG_RETURN_MS = 15000;
+const FLAG_SPAWN_OFFSET = 70;
+const HILL_RADIUS = 90;
+const HILL_PADDING = 60;
+const HILL_CAPTURE_MS = 3000;
+const HILL_POINT_MS = 1000;
+const CIRCLE_START_R = Math.hypot(ARENA.w, ARENA.h) / 2;
+const CIRCLE_MIN_R = 80;
+const CIRCLE_SHRINK_FACTOR = 0.6;
+const CIRCLE_HOLD_MS = 30000;
+const CIRCLE_SHRINK_MS = 10000;
+const CIRCLE_WARNING_MS = 10000;
+const CIRCLE_DAMAGE_MS = 1000;
+const CIRCLE_SPAWN_FRACTION = 0.7;
+const ROUND_BREAK_MS = 4000;
+const WAVE_INTERMISSION_MS = 10000;
+const WAVE_BASE_MS = 60000;
+const WAVE_EXTRA_MS = 5000;
+const WAVE_BASE_SIZE = 3;
+const WAVE_GROWTH = 2;
+const WAVE_MAX_BOTS = 24;
+const WAVE_SPAWN_INSET = 30;
+const TANK_RADIUS = 26;
+const TRICKSTER_ITEM_MS = 6000;
+const COUNTDOWN_DEFAULT_SEC = 5;
+const COUNTDOWN_MIN_SEC = 3;
+const COUNTDOWN_MAX_SEC = 10;
+const ARCHETYPES: Record<
+    BotArchetype,
+    { label: string; hpMult: number; speedMult: number; aimMult: number; near: number; far: number }
+> = {
+    rusher: { label: "Rusher", hpMult: 0.6, speedMult: 1.3, aimMult: 1.2, near: 0, far: 40 },
+    sniper: { label: "Sniper", hpMult: 0.8, speedMult: 0.85, aimMult: 0.4, near: 380, far: 520 },
+    tank: { label: "Tank", hpMult: 3, speedMult: 0.7, aimMult: 1, near: 120, far: 220 },
+    trickster: { label: "Trickster", hpMult: 1, speedMult: 1, aimMult: 1, near: 180, far: 280 },
+};
+// items a bot can use without a follow-up click
+const BOT_ITEMS: AbilityType[] = [
+    "time_bubble",
+    "phase_dash",
+    "shield",
+    "rift_sniper",
+    "pulse_nova",
+    "annihilation_bouncer",
+    "void_slice",
+];
+const FLAG_BASES: Record<TeamId, { x: number; y: number }> = {
+    red: { x: 80, y: ARENA.h / 2 },
+    blue: { x: ARENA.w - 80, y: ARENA.h / 2 },
+    green: { x: ARENA.w / 2, y: 80 },
+    yellow: { x: ARENA.w / 2, y: ARENA.h - 80 },
+};
+const SPAWN_POINTS = [
+    { x: 60, y: 60 },
+    { x: ARENA.w - 60, y: 60 },
+    { x: 60, y: ARENA.h - 60 },
+    { x: ARENA.w - 60, y: ARENA.h - 60 },
+] as const;
+
+const ABILITIES: AbilityType[] = [
+    "echo",
+    "time_bubble",
+    "phase_dash",
+    "shield",
+    "rift_sniper",
+    "pulse_nova",
+    "orbital_strike",
+    "linked_portals",
+    "annihilation_bouncer",
+    "void_slice",
+];
+
+// Game rules only: no sockets, timers, wall-clock reads or Math.random. Time advances by
+// exactly TICK_MS per step() and randomness comes from the seeded PRNG, so the same config
+// and command log always produce the same match. The owner decides when to step and
+// delivers the returned events and notifications.
+export class GameSimulation {
+    readonly id: string;
+    readonly maxPlayers: number;
+    readonly fillWithBots: boolean;
+    readonly botCount: number;
+    readonly botDifficulty: BotDifficulty;
+    readonly maxHp: number;
+    readonly maxRewindMs: number;
+    readonly seed: number;
+    readonly mode: GameMode;
+    readonly friendlyFire: boolean;
+    // nested objects (teams, circle, wave) are replaced rather than mutated, so copies of
+    // the match state stay as they were
+    match: MatchState;
+    private config: SimulationConfig;
+    private random: Random;
+    private timeMs: number;
+    private tickCount = 0;
+    private logCommands = false;
+    // the current match's log, from its countdown on; null while not recording and once it
+    // outgrew MAX_COMMAND_LOG, after which the match can no longer be re-simulated
+    private commandLog: LoggedCommand[] | null = null;
+    private checkpoint: SimulationCheckpoint | null = null;
+    private players = new Map<string, PlayerState>();
+    // disconnected players waiting to resume; their slot stays taken
+    private parked = new Map<string, PlayerState>();
+    private latestInputs = new Map<string, PlayerInput>();
+    private inputQueue = new Map<string, PlayerInput[]>();
+    private lastProcessedSeq = new Map<string, number>();
+    private viewTimes = new Map<string, number>();
+    private rttMs = new Map<string, number>();
+    private positionHistory: PositionHistory;
+    private inputBuffer = new Map<string, BufferedInput[]>();
+    private bullets = new Map<string, BulletState>();
+    private lastShotAtMs = new Map<string, number>();
+    private lastUseItemSeq = new Map<string, number>();
+    private dashUntilMs = new Map<string, number>();
+    private shieldUntilMs = new Map<string, number>();
+    private novaHitCooldown = new Map<string, number>();
+    private botIds: string[] = [];
+    private stats = new MatchStats();
+    private botAi = new Map<
+        string,
+        {
+            nextThinkAtMs: number;
+            nextStrafeFlipAtMs: number;
+            strafeDir: number;
+            targetId?: string;
+            aim: { x: number; y: number };
+            nextItemAtMs?: number;
+        }
+    >();
+    private echoes = new Map<string, EchoMeta>();
+    private pickups = new Map<string, PickupState>();
+    private zones = new Map<string, ZoneState>();
+    private strikes: Strike[] = [];
+    private pendingStrikes = new Map<string, PendingStrike>();
+    private pendingEvents: GameEvent[] = [];
+    private portals: PortalState[] = [];
+    private pendingPortals = new Map<string, PendingPortal>();
+    private portalCooldownUntilMs = new Map<string, number>();
+    private flags = new Map<TeamId, FlagState>();
+    // koth only; kept apart from the ability zones, which expire and get cleared
+    private hill: ZoneState | null = null;
+    private hillRelocateMs: number;
+    private hillHeldMs = 0;
+    // lms only
+    private readonly lives: number;
+    private readonly roundCount: number;
+    private roundEntrants = 0;
+    private roundOver = false;
+    private circleFrom: { x: number; y: number; r: number } | null = null;
+    private circleWarned = false;
+    private nextCircleDamageAtMs = 0;
+    private scheduled: ScheduledTask[] = [];
+    private notifications: SimulationNotification[] = [];
+    private bulletSeq = 0;
+    private echoSeq = 0;
+    private pickupSeq = 0;
+    private zoneSeq = 0;
+    private novaSeq = 0;
+    private strikeSeq = 0;
+    private botSeq = 0;
+    private lastBotCheckMs = 0;
+    private portalSeq = 0;
+
+    constructor(config: SimulationConfig) {
+        this.config = { ...config };
+        this.id = config.id;
+        this.maxPlayers = config.maxPlayers;
+        this.fillWithBots = config.fillWithBots;
+        this.botCount = config.botCount;
+        this.botDifficulty = config.botDifficulty;
+        this.maxHp = config.maxHp;
+        this.maxRewindMs = config.maxRewindMs;
+        this.seed = config.seed;
+        this.mode = config.mode;
+        this.friendlyFire = config.friendlyFire;
+        this.random = createRandom(config.seed);
+        this.timeMs = config.startTimeMs;
+        this.positionHistory = new PositionHistory(config.maxRewindMs + TICK_MS);
+        this.match = {
+            phase: "lobby",
+            hostId: config.hostId,
+            durationSec: 300,
+            countdownSec: COUNTDOWN_DEFAULT_SEC,
+            mode: this.mode,
+            // rounds and waves decide lms and survival; everything else also ends at its limit
+            winCondition: this.mode === "lms" || this.mode === "survival" ? "time" : "either",
+        };
+        this.hillRelocateMs = config.hillRelocateSec * 1000;
+        this.lives = config.lives;
+        this.roundCount = config.roundCount;
+        // koth is played solo unless teams were asked for
+        const usesTeams =
+            this.mode === "koth"
+                ? config.teamCount >= 2
+                : this.mode === "tdm" || this.mode === "ctf";
+        if (usesTeams) {
+            this.match.teams = TEAM_IDS.slice(0, config.teamCount).map((id) => ({
+                id,
+                score: 0,
+            }));
+        }
+        if (usesTeams || this.mode === "survival") {
+            this.match.friendlyFire = this.friendlyFire;
+        }
+        if (this.match.winCondition === "either") {
+            this.match.scoreLimit = config.scoreLimit;
+        }
+        if (this.mode === "lms") {
+            this.match.roundCount = this.roundCount;
+        }
+        if (this.mode === "ctf") {
+            for (const team of this.match.teams ?? []) {
+                const base = FLAG_BASES[team.id];
+                this.flags.set(team.id, {
+                    id: team.id,
+                    x: base.x,
+                    y: base.y,
+                    baseX: base.x,
+                    baseY: base.y,
+                });
+            }
+        }
+        this.spawnInitialPickups();
+    }
+
+    addPlayer(player: RoomPlayer): void {
+        this.record({ type: "join", player });
+        const team = this.pickTeam();
+        const spawn = this.spawnPointFor(team);
+        const lives = this.livesForNewcomer();
+        this.players.set(player.id, {
+            id: player.id,
+            name: player.name,
+            x: spawn.x,
+            y: spawn.y,
+            r: PLAYER_RADIUS,
+            hp: this.maxHp,
+            maxHp: this.maxHp,
+            alive: lives !== 0,
+            kills: 0,
+            deaths: 0,
+            isEcho: false,
+            isBot: false,
+            heldItem: null,
+            shieldHp: 0,
+            team,
+            score: this.usesPlayerScore() ? 0 : undefined,
+            lives,
+            ready: false,
+        });
+        if (!this.match.hostId) {
+            this.match.hostId = player.id;
+        }
+    }
+
+    // filler bots have no archetype; survival waves spawn theirs at the arena edge
+    private spawnBot(archetype?: BotArchetype): void {
+        const suffix = this.random().toString(36).slice(2, 6).toUpperCase();
+        const botId = `BOT-${this.id}-${this.botSeq++}-${suffix}`;
+        const team = this.pickTeam();
+        const spawn = archetype ? this.waveSpawnPoint() : this.spawnPointFor(team);
+        const lives = this.livesForNewcomer();
+        const maxHp = archetype ? this.waveBotHp(archetype) : this.maxHp;
+        this.players.set(botId, {
+            id: botId,
+            name: `${archetype ? ARCHETYPES[archetype].label : "Bot"} #${this.botSeq}`,
+            x: spawn.x,
+            y: spawn.y,
+            r: archetype === "tank" ? TANK_RADIUS : PLAYER_RADIUS,
+            hp: maxHp,
+            maxHp,
+            alive: lives !== 0,
+            kills: 0,
+            deaths: 0,
+            isEcho: false,
+            isBot: true,
+            heldItem: null,
+            shieldHp: 0,
+            team,
+            score: this.usesPlayerScore() ? 0 : undefined,
+            lives,
+            archetype,
+        });
+        this.botIds.push(botId);
+        this.botAi.set(botId, {
+            nextThinkAtMs: 0,
+            nextStrafeFlipAtMs: 0,
+            strafeDir: 1,
+            aim: { x: spawn.x, y: spawn.y },
+        });
+    }
+
+    // the smallest team, earliest listed on a tie; undefined outside team modes
+    private pickTeam(): TeamId | undefined {
+        const teams = this.match.teams;
+        if (!teams) return undefined;
+        const sizes = new Map<TeamId, number>(teams.map((team) => [team.id, 0]));
+        for (const player of [...this.players.values(), ...this.parked.values()]) {
+            if (player.isEcho || !player.team) continue;
+            sizes.set(player.team, (sizes.get(player.team) ?? 0) + 1);
+        }
+        let best = teams[0].id;
+        for (const team of teams) {
+            if ((sizes.get(team.id) ?? 0) < (sizes.get(best) ?? 0)) {
+                best = team.id;
+            }
+        }
+        return best;
+    }
+
+    // lms: joining a decided round means watching until the next one
+    private livesForNewcomer(): number | undefined {
+        if (this.mode !== "lms") return undefined;
+        if (this.match.phase !== "playing") return this.lives;
+        if (this.roundOver || this.roundEntrants >= 2) return 0;
+        this.roundEntrants += 1;
+        return this.lives;
+    }
+
+    private isTeammate(a: PlayerState, b: PlayerState): boolean {
+        // survival pits every human against every bot
+        if (this.mode === "survival") return !a.isBot === !b.isBot;
+        return !!a.team && a.team === b.team;
+    }
+
+    // whether damage from byRootId may land on target; self-damage rules stay with the caller
+    private canDamage(byRootId: string, target: PlayerState): boolean {
+        if (target.id === byRootId) return true;
+        const attacker = this.players.get(byRootId) ?? this.parked.get(byRootId);
+        if (!attacker || !this.isTeammate(attacker, target)) return true;
+        // friendly fire is for humans; wave bots never hurt each other
+        return this.friendlyFire && !attacker.isBot;
+    }
+
+    removePlayer(playerId: string): void {
+        this.record({ type: "leave", playerId });
+        this.detachPlayer(playerId);
+        this.parked.delete(playerId);
+        this.checkAllReady();
+    }
+
+    // drops everything the simulation holds for a player
+    private detachPlayer(playerId: string): void {
+        this.dropFlag(playerId);
+        this.players.delete(playerId);
+        this.latestInputs.delete(playerId);
+        this.inputQueue.delete(playerId);
+        this.lastProcessedSeq.delete(playerId);
+        this.viewTimes.delete(playerId);
+        this.rttMs.delete(playerId);
+        this.inputBuffer.delete(playerId);
+        this.lastShotAtMs.delete(playerId);
+        this.lastUseItemSeq.delete(playerId);
+        this.dashUntilMs.delete(playerId);
+        this.shieldUntilMs.delete(playerId);
+        this.botAi.delete(playerId);
+        this.pendingStrikes.delete(playerId);
+        this.strikes = this.strikes.filter((strike) => strike.byId !== playerId);
+        this.pendingPortals.delete(playerId);
+        this.portals = this.portals.filter((portal) => portal.ownerId !== playerId);
+        this.clearPortalCooldowns(playerId);
+        if (this.match.hostId === playerId) {
+            this.assignNewHost();
+        }
+        for (const [echoId, meta] of this.echoes.entries()) {
+            if (meta.ownerId === playerId) {
+                this.echoes.delete(echoId);
+                this.players.delete(echoId);
+                this.lastShotAtMs.delete(echoId);
+            }
+        }
+        for (const bullet of this.bullets.values()) {
+            if (bullet.ownerRootId === playerId) {
+                this.bullets.delete(bullet.id);
+            }
+        }
+    }
+
+    // takes the player out of the simulation but keeps score and held item for a resume
+    parkPlayer(playerId: string): boolean {
+        this.record({ type: "park", playerId });
+        const player = this.players.get(playerId);
+        if (!player || player.isBot || player.isEcho) return false;
+        this.detachPlayer(playerId);
+        this.parked.set(playerId, player);
+        this.checkAllReady();
+        return true;
+    }
+
+    resumePlayer(playerId: string): boolean {
+        this.record({ type: "resume", playerId });
+        const player = this.parked.get(playerId);
+        if (!player) return false;
+        this.parked.delete(playerId);
+        this.players.set(playerId, player);
+        if (!this.match.hostId) {
+            this.match.hostId = playerId;
+        }
+        if (!player.alive) {
+            this.scheduleRespawn(playerId);
+        }
+        return true;
+    }
+
+    private clearPortalCooldowns(entityId: string): void {
+        const prefix = `${entityId}:`;
+        for (const key of this.portalCooldownUntilMs.keys()) {
+            if (key.startsWith(prefix)) {
+                this.portalCooldownUntilMs.delete(key);
+            }
+        }
+    }
+
+    hasPlayer(playerId: string): boolean {
+        return this.players.has(playerId);
+    }
+
+    isEmpty(): boolean {
+        return this.getHumanCount() === 0;
+    }
+
+    getPlayerCount(): number {
+        let count = this.parked.size;
+        for (const player of this.players.values()) {
+            if (!player.isEcho) count += 1;
+        }
+        return count;
+    }
+
+    getHumanCount(): number {
+        let count = this.parked.size;
+        for (const player of this.players.values()) {
+            if (!player.isEcho && !player.isBot) count += 1;
+        }
+        return count;
+    }
+
+    getBotCount(): number {
+        return this.botIds.length;
+    }
+
+    getPlayerName(playerId: string): string | null {
+        return this.players.get(playerId)?.name ?? this.parked.get(playerId)?.name ?? null;
+    }
+
+    // survival bots don't take player slots
+    isFull(): boolean {
+        const count = this.mode === "survival" ? this.getHumanCount() : this.getPlayerCount();
+        return count >= this.maxPlayers;
+    }
+
+    ensureBots(): void {
+        this.record({ type: "fill_bots" });
+        this.fillBots();
+    }
+
+    removeBotsForSpace(needed: number): void {
+        this.record({ type: "free_slots", count: needed });
+        this.dropBots(needed);
+    }
+
+    private fillBots(): void {
+        if (!this.fillWithBots || this.mode === "survival") return;
+        if (this.getHumanCount() === 0) {
+            this.dropBots(this.botIds.length);
+            return;
+        }
+        const desiredBots = Math.min(
+            this.botCount,
+            Math.max(0, this.maxPlayers - this.getHumanCount()),
+        );
+        const delta = desiredBots - this.getBotCount();
+        if (delta > 0) {
+            for (let i = 0; i < delta; i += 1) {
+                this.spawnBot();
+            }
+        } else if (delta < 0) {
+            this.dropBots(-delta);
+        }
+    }
+
+    private dropBots(needed: number): void {
+        for (let i = 0; i < needed; i += 1) {
+            const botId = this.botIds[0];
+            if (!botId) return;
+            this.removeBot(botId);
+        }
+    }
+
+    private removeBot(botId: string): void {
+        this.botIds = this.botIds.filter((id) => id !== botId);
+        this.players.delete(botId);
+        this.latestInputs.delete(botId);
+        this.inputQueue.delete(botId);
+        this.inputBuffer.delete(botId);
+        this.lastShotAtMs.delete(botId);
+        this.lastUseItemSeq.delete(botId);
+        this.dashUntilMs.delete(botId);
+        this.shieldUntilMs.delete(botId);
+        this.botAi.delete(botId);
+    }
+
+    // queued until the next step; replay filtering is the caller's job
+    queueInput(playerId: string, input: PlayerInput): void {
+        if (!this.players.has(playerId)) return;
+        this.record({ type: "input", playerId, input });
+        const queue = this.inputQueue.get(playerId) ?? [];
+        queue.push(input);
+        if (queue.length > MAX_QUEUED_INPUTS) {
+            queue.shift();
+        }
+        this.inputQueue.set(playerId, queue);
+        if (typeof input.viewT === "number") {
+            this.viewTimes.set(playerId, input.viewT);
+        }
+    }
+
+    // where the shooter saw everyone else when aiming
+    getAimTargets(playerId: string): { id: string; x: number; y: number }[] {
+        const nowMs = this.timeMs;
+        const targets: { id: string; x: number; y: number }[] = [];
+        for (const target of this.players.values()) {
+            if (target.id === playerId || target.ownerId === playerId || !target.alive) continue;
+            const position = this.getLagCompensatedPosition(target, playerId, nowMs);
+            targets.push({ id: target.id, x: position.x, y: position.y });
+        }
+        return targets;
+    }
+
+    getPlayer(playerId: string): PlayerState | null {
+        return this.players.get(playerId) ?? null;
+    }
+
+    getAckSeq(playerId: string): number {
+        return this.lastProcessedSeq.get(playerId) ?? 0;
+    }
+
+    getEntities(): SnapshotEntities {
+        return {
+            players: Array.from(this.players.values()),
+            bullets: Array.from(this.bullets.values()),
+            pickups: Array.from(this.pickups.values()),
+            zones: [...this.zones.values(), ...(this.hill ? [this.hill] : [])],
+            portals: this.portals,
+            flags: Array.from(this.flags.values()),
+        };
+    }
+
+    reportRtt(playerId: string, rttMs: number): void {
+        if (!this.players.has(playerId)) return;
+        this.record({ type: "rtt", playerId, rttMs });
+        this.rttMs.set(playerId, Math.max(0, rttMs));
+    }
+
+    applyCommand(command: SimulationCommand): void {
+        switch (command.type) {
+            case "join":
+                this.addPlayer(command.player);
+                break;
+            case "leave":
+                this.removePlayer(command.playerId);
+                break;
+            case "park":
+                this.parkPlayer(command.playerId);
+                break;
+            case "resume":
+                this.resumePlayer(command.playerId);
+                break;
+            case "input":
+                this.queueInput(command.playerId, command.input);
+                break;
+            case "rtt":
+                this.reportRtt(command.playerId, command.rttMs);
+                break;
+            case "strike":
+                this.confirmStrike(command.playerId, command.x, command.y);
+                break;
+            case "portal":
+                this.confirmPortalB(command.playerId, command.x, command.y);
+                break;
+            case "ready":
+                this.setReady(command.playerId, command.ready);
+                break;
+            case "configure":
+                this.configureMatch(command);
+                break;
+            case "start":
+                this.startMatch();
+                break;
+            case "restart":
+                this.restartMatch();
+                break;
+            case "fill_bots":
+                this.ensureBots();
+                break;
+            case "free_slots":
+                this.removeBotsForSpace(command.count);
+                break;
+        }
+    }
+
+    getTimeMs(): number {
+        return this.timeMs;
+    }
+
+    getTick(): number {
+        return this.tickCount;
+    }
+
+    // what this simulation was built from; with the command log it is enough to replay it
+    getConfig(): SimulationConfig {
+        return this.config;
+    }
+
+    // only worth the memory when finished matches are kept as replays
+    setCommandLogging(enabled: boolean): void {
+        this.logCommands = enabled;
+        if (!enabled) this.stopCommandLog();
+    }
+
+    getCommandLog(): { checkpoint: SimulationCheckpoint; commands: LoggedCommand[] } | null {
+        if (!this.checkpoint || !this.commandLog) return null;
+        return { checkpoint: this.checkpoint, commands: this.commandLog };
+    }
+
+    step(): StepResult {
+        this.timeMs += TICK_MS;
+        this.tickCount += 1;
+        const now = this.timeMs;
+        const dtSeconds = TICK_MS / 1000;
+        this.runScheduled(now);
+        if (this.match.phase === "countdown" && now >= (this.match.startsAtMs ?? now)) {
+            this.beginPlay(now);
+        }
+        const events: GameEvent[] = this.pendingEvents.splice(0);
+        const isPlaying = this.match.phase === "playing";
+
+        for (const [playerId, player] of this.players.entries()) {
+            if (player.isEcho) continue;
+            if (player.isBot) continue;
+            this.consumeInputs(player, now, isPlaying, events);
+            const input = this.latestInputs.get(playerId);
+            if (!input || !player.alive) continue;
+            this.bufferInput(playerId, input, now);
+
+            if (isPlaying && input.shoot) {
+                this.tryShoot(player, input, now, player.id);
+            }
+        }
+
+        this.updateBots(now, dtSeconds, isPlaying, events);
+        this.updatePendingStrikes(now);
+        this.updatePendingPortals(now);
+        this.updateShields(now);
+
+        this.collectPickups();
+        if (isPlaying) this.updateFlags(now);
+        if (isPlaying) this.updateHill(now);
+        if (isPlaying) this.updateCircle(now, events);
+        if (isPlaying) this.updateWave(now);
+        this.updateZones(now);
+        this.updateEchoes(now, dtSeconds, isPlaying);
+        this.updatePortals(now);
+        this.updatePortalEntities(now);
+        this.updatePortalBullets(now);
+        this.updateStrikes(now, events);
+        stepBullets({
+            bullets: this.bullets,
+            players: this.players,
+            events: isPlaying ? events : [],
+            dtSeconds,
+            arena: ARENA,
+            nowMs: now,
+            onDeath: (playerId) => this.handleDeath(playerId),
+            onHit: (bullet, target, damage, lethal) =>
+                this.recordBulletHit(bullet, target, damage, lethal),
+            bulletSpeedMultiplier: (x, y) => this.getBulletMultiplierAt(x, y),
+            isInvulnerable: (playerId) => this.isDashing(playerId, now),
+            shieldHit: (playerId, byRootId) =>
+                this.handleShieldHit(playerId, byRootId, events),
+            canHit: (bullet, target) => this.canDamage(bullet.ownerRootId, target),
+            shouldIgnoreHit: (bullet, playerId, nowMs) =>
+                this.shouldIgnoreNovaHit(bullet, playerId, nowMs),
+            targetPosition: (bullet, target) =>
+                this.getLagCompensatedPosition(target, bullet.ownerRootId, now),
+            allowDamage: isPlaying,
+        });
+        this.scoreTeamKills(events);
+        if (this.match.phase === "playing") this.updateRound();
+        if (this.match.phase === "playing") this.checkScoreWin();
+
+        if (this.match.phase === "playing" && this.match.endsAtMs && now >= this.match.endsAtMs) {
+            this.handleTimeUp();
+        }
+
+        if (this.fillWithBots && now - this.lastBotCheckMs > 1000) {
+            this.lastBotCheckMs = now;
+            this.fillBots();
+        }
+
+        this.positionHistory.record(now, this.players.values());
+        return { timeMs: now, events, notifications: this.notifications.splice(0) };
+    }
+
+    private record(command: SimulationCommand): void {
+        if (!this.commandLog) return;
+        if (this.commandLog.length >= MAX_COMMAND_LOG) {
+            this.stopCommandLog();
+            return;
+        }
+        this.commandLog.push({ tick: this.tickCount, command });
+    }
+
+    // Called once the countdown has settled the match's starting state. The PRNG is reseeded
+    // so the checkpoint does not have to capture its internal state.
+    private startCommandLog(): void {
+        const seed = Math.floor(this.random() * 0x100000000);
+        this.random = createRandom(seed);
+        this.checkpoint = structuredClone({
+            tick: this.tickCount,
+            timeMs: this.timeMs,
+            seed,
+            match: this.match,
+            players: Array.from(this.players.values()),
+            parked: Array.from(this.parked.values()),
+            botIds: this.botIds,
+            pickups: Array.from(this.pickups.values()),
+            flags: Array.from(this.flags.values()),
+            latestInputs: Object.fromEntries(this.latestInputs),
+            inputQueue: Object.fromEntries(this.inputQueue),
+            lastProcessedSeq: Object.fromEntries(this.lastProcessedSeq),
+            lastUseItemSeq: Object.fromEntries(this.lastUseItemSeq),
+            viewTimes: Object.fromEntries(this.viewTimes),
+            rttMs: Object.fromEntries(this.rttMs),
+            sequences: {
+                bullet: this.bulletSeq,
+                echo: this.echoSeq,
+                pickup: this.pickupSeq,
+                zone: this.zoneSeq,
+                nova: this.novaSeq,
+                strike: this.strikeSeq,
+                bot: this.botSeq,
+                portal: this.portalSeq,
+            },
+            lastBotCheckMs: this.lastBotCheckMs,
+            circleFrom: this.circleFrom,
+            circleWarned: this.circleWarned,
+            nextCircleDamageAtMs: this.nextCircleDamageAtMs,
+        });
+        this.commandLog = [];
+    }
+
+    private stopCommandLog(): void {
+        this.commandLog = null;
+        this.checkpoint = null;
+    }
+
+    // puts a freshly built simulation into the state the checkpoint was taken in
+    restoreCheckpoint(checkpoint: SimulationCheckpoint): void {
+        const copy = structuredClone(checkpoint);
+        this.tickCount = copy.tick;
+        this.timeMs = copy.timeMs;
+        this.random = createRandom(copy.seed);
+        this.match = copy.match;
+        this.players = new Map(copy.players.map((player) => [player.id, player]));
+        this.parked = new Map(copy.parked.map((player) => [player.id, player]));
+        this.botIds = copy.botIds;
+        this.pickups = new Map(copy.pickups.map((pickup) => [pickup.id, pickup]));
+        this.flags = new Map(copy.flags.map((flag) => [flag.id, flag]));
+        this.latestInputs = new Map(Object.entries(copy.latestInputs));
+        this.inputQueue = new Map(Object.entries(copy.inputQueue));
+        this.lastProcessedSeq = new Map(Object.entries(copy.lastProcessedSeq));
+        this.lastUseItemSeq = new Map(Object.entries(copy.lastUseItemSeq));
+        this.viewTimes = new Map(Object.entries(copy.viewTimes));
+        this.rttMs = new Map(Object.entries(copy.rttMs));
+        this.bulletSeq = copy.sequences.bullet;
+        this.echoSeq = copy.sequences.echo;
+        this.pickupSeq = copy.sequences.pickup;
+        this.zoneSeq = copy.sequences.zone;
+        this.novaSeq = copy.sequences.nova;
+        this.strikeSeq = copy.sequences.strike;
+        this.botSeq = copy.sequences.bot;
+        this.portalSeq = copy.sequences.portal;
+        this.lastBotCheckMs = copy.lastBotCheckMs;
+        this.circleFrom = copy.circleFrom;
+        this.circleWarned = copy.circleWarned;
+        this.nextCircleDamageAtMs = copy.nextCircleDamageAtMs;
+        this.scheduled = [];
+    }
+
+    private notify(message: string, to?: string): void {
+        this.notifications.push(to ? { type: "toast", message, to } : { type: "toast", message });
+    }
+
+    private schedule(delayMs: number, run: () => void): void {
+        this.scheduled.push({ atMs: this.timeMs + delayMs, run });
+    }
+
+    private runScheduled(nowMs: number): void {
+        const due = this.scheduled.filter((task) => task.atMs <= nowMs);
+        if (due.length === 0) return;
+        this.scheduled = this.scheduled.filter((task) => task.atMs > nowMs);
+        due.forEach((task) => task.run());
+    }
+
+    // the server time the shooter was looking at, bounded by maxRewindMs and their measured RTT
+    private getRewindTimeMs(playerId: string, nowMs: number): number {
+        const viewT = this.viewTimes.get(playerId);
+        const rtt = this.rttMs.get(playerId);
+        if (viewT === undefined && rtt === undefined) return nowMs;
+        const estimate = viewT ?? nowMs - (rtt ?? 0) / 2 - CLIENT_INTERP_DELAY_MS;
+        const plausibleFloor =
+            rtt === undefined
+                ? -Infinity
+                : nowMs - rtt - CLIENT_INTERP_DELAY_MS - REWIND_TOLERANCE_MS;
+        return clamp(estimate, Math.max(nowMs - this.maxRewindMs, plausibleFloor), nowMs);
+    }
+
+    private getLagCompensatedPosition(
+        target: PlayerState,
+        shooterRootId: string,
+        nowMs: number,
+    ): { x: number; y: number } {
+        if (target.id === shooterRootId) return target;
+        const rewindMs = this.getRewindTimeMs(shooterRootId, nowMs);
+        if (rewindMs >= nowMs) return target;
+        return this.positionHistory.sample(target.id, rewindMs) ?? target;
+    }
+
+    private consumeInputs(
+        player: PlayerState,
+        nowMs: number,
+        isPlaying: boolean,
+        events: GameEvent[],
+    ): void {
+        // one input per tick, so sending faster than the tick rate only fills the queue; a
+        // backlog from jitter drains a tick later and the overflow is dropped in queueInput
+        const input = this.inputQueue.get(player.id)?.shift();
+        if (!input) return;
+        this.latestInputs.set(player.id, input);
+        this.lastProcessedSeq.set(player.id, input.seq);
+        // frozen at the spawn point until the countdown runs out
+        if (!player.alive || this.match.phase === "countdown") return;
+        const moveMult = this.getMoveMultiplier(player.id, player, nowMs);
+        applyMovement(player, input.keys, INPUT_STEP_MS / 1000, moveMult);
+        if (isPlaying && input.useItem && this.canUseItem(player.id, input.seq)) {
+            this.activateAbility(player, nowMs, input, events);
+        }
+    }
+
+    // a random point just inside the arena edge
+    private waveSpawnPoint(): { x: number; y: number } {
+        const along = this.random();
+        const side = Math.floor(this.random() * 4);
+        if (side === 0) return { x: along * ARENA.w, y: WAVE_SPAWN_INSET };
+        if (side === 1) return { x: along * ARENA.w, y: ARENA.h - WAVE_SPAWN_INSET };
+        if (side === 2) return { x: WAVE_SPAWN_INSET, y: along * ARENA.h };
+        return { x: ARENA.w - WAVE_SPAWN_INSET, y: along * ARENA.h };
+    }
+
+    // tougher every five waves
+    private waveBotHp(archetype: BotArchetype): number {
+        const wave = this.match.wave?.number ?? 1;
+        const scale = 1 + Math.floor((wave - 1) / 5) * 0.5;
+        return Math.max(1, Math.round(this.maxHp * ARCHETYPES[archetype].hpMult * scale));
+    }
+
+    private randomSpawn(): { x: number; y: number } {
+        const index = Math.floor(this.random() * SPAWN_POINTS.length);
+        return SPAWN_POINTS[index];
+    }
+
+    // ctf teams spawn in front of their own base, lms players inside the safe circle
+    private spawnPointFor(team: TeamId | undefined): { x: number; y: number } {
+        const circle = this.match.circle;
+        if (circle) {
+            const angle = this.random() * Math.PI * 2;
+            const distance = Math.sqrt(this.random()) * circle.r * CIRCLE_SPAWN_FRACTION;
+            const x = circle.x + Math.cos(angle) * distance;
+            const y = circle.y + Math.sin(angle) * distance;
+            return {
+                x: clamp(x, PLAYER_RADIUS, ARENA.w - PLAYER_RADIUS),
+                y: clamp(y, PLAYER_RADIUS, ARENA.h - PLAYER_RADIUS),
+            };
+        }
+        const flag = team ? this.flags.get(team) : undefined;
+        if (!flag) return this.randomSpawn();
+        const toCenterX = ARENA.w / 2 - flag.baseX;
+        const toCenterY = ARENA.h / 2 - flag.baseY;
+        const length = Math.hypot(toCenterX, toCenterY) || 1;
+        const nx = toCenterX / length;
+        const ny = toCenterY / length;
+        // spread sideways so teammates don't stack
+        const jitter = (this.random() - 0.5) * FLAG_SPAWN_OFFSET;
+        return {
+            x: flag.baseX + nx * FLAG_SPAWN_OFFSET + ny * jitter,
+            y: flag.baseY + ny * FLAG_SPAWN_OFFSET - nx * jitter,
+        };
+    }
+
+    private tryShoot(
+        player: PlayerState,
+        input: Pick<PlayerInput, "aim">,
+        nowMs: number,
+        ownerRootId: string,
+    ): void {
+        const lastShot = this.lastShotAtMs.get(player.id) ?? 0;
+        if (nowMs - lastShot < FIRE_COOLDOWN_MS) return;
+
+        const dx = input.aim.x - player.x;
+        const dy = input.aim.y - player.y;
+        const length = Math.hypot(dx, dy);
+        if (length < 0.001) return;
+
+        const nx = dx / length;
+        const ny = dy / length;
+        const spawnOffset = player.r + 6;
+        const bullet: BulletState = {
+            id: `${this.id}-b-${this.bulletSeq++}`,
+            kind: "blaster",
+            ownerId: player.id,
+            ownerRootId,
+            x: player.x + nx * spawnOffset,
+            y: player.y + ny * spawnOffset,
+            vx: nx * BULLET_SPEED,
+            vy: ny * BULLET_SPEED,
+            ttlMs: BULLET_TTL_MS,
+            portalJumpsLeft: PORTAL_BULLET_JUMPS,
+            bulletPortalCooldownUntilMs: 0,
+        };
+        this.bullets.set(bullet.id, bullet);
+        this.lastShotAtMs.set(player.id, nowMs);
+        if (player.id === ownerRootId) this.stats.recordShot(player.id);
+    }
+
+    private recordBulletHit(
+        bullet: BulletState,
+        target: PlayerState,
+        damage: number,
+        lethal: boolean,
+    ): void {
+        this.stats.recordDamage(bullet.ownerRootId, target.id, damage);
+        // ability projectiles and slash reflections don't count towards accuracy
+        if (bullet.kind === "blaster" && bullet.ownerId === bullet.ownerRootId) {
+            this.stats.recordHit(bullet.ownerRootId);
+        }
+        if (!lethal) return;
+        const viaPortal = (bullet.portalJumpsLeft ?? PORTAL_BULLET_JUMPS) < PORTAL_BULLET_JUMPS;
+        this.stats.recordKill(
+            bullet.ownerRootId,
+            target.id,
+            bullet.ownerId !== bullet.ownerRootId ? "echo" : viaPortal ? "portal" : undefined,
+        );
+    }
+
+    private scheduleRespawn(playerId: string): void {
+        this.schedule(RESPAWN_DELAY_MS, () => {
+            const player = this.players.get(playerId);
+            if (!player || player.lives === 0) return;
+            if (this.match.phase !== "playing") return;
+            const spawn = this.spawnPointFor(player.team);
+            player.x = spawn.x;
+            player.y = spawn.y;
+            player.maxHp = this.maxHp;
+            player.hp = this.maxHp;
+            player.alive = true;
+        });
+    }
+
+    private bufferInput(playerId: string, input: PlayerInput, nowMs: number): void {
+        const history = this.inputBuffer.get(playerId) ?? [];
+        history.push({ tMs: nowMs, keys: input.keys, aim: input.aim, shoot: input.shoot });
+        const cutoff = nowMs - 5000;
+        while (history.length > 0 && history[0].tMs < cutoff) {
+            history.shift();
+        }
+        this.inputBuffer.set(playerId, history);
+    }
+
+    private findBufferedInput(
+        ownerId: string,
+        targetMs: number,
+    ): BufferedInput | null {
+        const history = this.inputBuffer.get(ownerId);
+        if (!history || history.length === 0) return null;
+        for (let i = history.length - 1; i >= 0; i -= 1) {
+            if (history[i].tMs <= targetMs) return history[i];
+        }
+        return null;
+    }
+
+    private updateEchoes(nowMs: number, dtSeconds: number, allowShoot: boolean): void {
+        for (const [echoId, meta] of this.echoes.entries()) {
+            const echo = this.players.get(echoId);
+            if (!echo) {
+                this.echoes.delete(echoId);
+                continue;
+            }
+            if (nowMs >= meta.expiresAtMs) {
+                this.echoes.delete(echoId);
+                this.players.delete(echoId);
+                this.lastShotAtMs.delete(echoId);
+                continue;
+            }
+            const buffered = this.findBufferedInput(meta.ownerId, nowMs - ECHO_DELAY_MS);
+            if (!buffered || !echo.alive) continue;
+            const moveMult = this.getMoveMultiplier(meta.ownerId, echo, nowMs, true);
+            applyMovement(echo, buffered.keys, dtSeconds, moveMult);
+            if (allowShoot && buffered.shoot) {
+                this.tryShoot(echo, buffered, nowMs, meta.ownerId);
+            }
+        }
+    }
+
+    private updateBots(
+        nowMs: number,
+        dtSeconds: number,
+        allowShoot: boolean,
+        events: GameEvent[],
+    ): void {
+        if (!allowShoot) return;
+        const config = this.getBotConfig();
+        for (const botId of this.botIds) {
+            const bot = this.players.get(botId);
+            if (!bot || !bot.alive) continue;
+            const target = this.findBotTarget(botId);
+            if (!target) continue;
+            const input = this.buildBotInput(botId, bot, target, nowMs, config);
+            const speedMult = bot.archetype ? ARCHETYPES[bot.archetype].speedMult : 1;
+            const moveMult =
+                this.getMoveMultiplier(botId, bot, nowMs) * config.speedMult * speedMult;
+            applyMovement(bot, input.keys, dtSeconds, moveMult);
+            if (bot.archetype === "trickster") {
+                this.useBotItem(bot, input, nowMs, events);
+            }
+            if (input.shoot) {
+                this.tryShoot(bot, input, nowMs, bot.id);
+            }
+        }
+    }
+
+    // tricksters get a fresh item every few seconds and use it once a target is in range
+    private useBotItem(
+        bot: PlayerState,
+        input: PlayerInput,
+        nowMs: number,
+        events: GameEvent[],
+    ): void {
+        const ai = this.botAi.get(bot.id);
+        if (!ai) return;
+        if (!bot.heldItem) {
+            if (nowMs < (ai.nextItemAtMs ?? 0)) return;
+            bot.heldItem = BOT_ITEMS[Math.floor(this.random() * BOT_ITEMS.length)];
+            return;
+        }
+        if (!input.shoot || !BOT_ITEMS.includes(bot.heldItem)) return;
+        this.activateAbility(bot, nowMs, input, events);
+        if (!bot.heldItem) {
+            ai.nextItemAtMs = nowMs + TRICKSTER_ITEM_MS;
+        }
+    }
+
+    private findBotTarget(botId: string): PlayerState | null {
+        const bot = this.players.get(botId);
+        if (!bot) return null;
+        const enemies = Array.from(this.players.values()).filter(
+            (player) => player.id !== botId && player.alive && !this.isTeammate(bot, player),
+        );
+        const humans = enemies.filter((player) => !player.isEcho && !player.isBot);
+        const pool = humans.length > 0 ? humans : enemies;
+        if (pool.length === 0) return null;
+        let best = pool[0];
+        let bestDist = distanceSq(bot.x, bot.y, best.x, best.y);
+        for (let i = 1; i < pool.length; i += 1) {
+            const candidate = pool[i];
+            const dist = distanceSq(bot.x, bot.y, candidate.x, candidate.y);
+            if (dist < bestDist) {
+                best = candidate;
+                bestDist = dist;
+            }
+        }
+        return best;
+    }
+
+    private buildBotInput(
+        botId: string,
+        bot: PlayerState,
+        target: PlayerState,
+        nowMs: number,
+        config: { aimJitter: number; reactionMs: number; shootRange: number; speedMult: number },
+    ): PlayerInput {
+        const dx = target.x - bot.x;
+        const dy = target.y - bot.y;
+        const dist = Math.hypot(dx, dy) || 1;
+        const style = bot.archetype ? ARCHETYPES[bot.archetype] : null;
+        let moveX = 0;
+        let moveY = 0;
+        if (dist > (style?.far ?? 280)) {
+            moveX = dx / dist;
+            moveY = dy / dist;
+        } else if (dist < (style?.near ?? 180)) {
+            moveX = -dx / dist;
+            moveY = -dy / dist;
+        } else {
+            const ai = this.botAi.get(botId);
+            if (ai && nowMs > ai.nextStrafeFlipAtMs) {
+                ai.strafeDir *= -1;
+                ai.nextStrafeFlipAtMs = nowMs + 700;
+            }
+            const dir = this.botAi.get(botId)?.strafeDir ?? 1;
+            moveX = (-dy / dist) * dir;
+            moveY = (dx / dist) * dir;
+        }
+
+        // holding the hill is worth more than keeping range
+        const hill = this.hill;
+        if (hill && !isInsideCircle(bot.x, bot.y, hill.x, hill.y, hill.r * 0.6)) {
+            const hx = hill.x - bot.x;
+            const hy = hill.y - bot.y;
+            const hillDist = Math.hypot(hx, hy) || 1;
+            moveX = hx / hillDist;
+            moveY = hy / hillDist;
+        }
+        // and so is staying out of the storm
+        const safe = this.match.circle?.next ?? this.match.circle;
+        if (safe && !isInsideCircle(bot.x, bot.y, safe.x, safe.y, safe.r * 0.8)) {
+            const sx = safe.x - bot.x;
+            const sy = safe.y - bot.y;
+            const safeDist = Math.hypot(sx, sy) || 1;
+            moveX = sx / safeDist;
+            moveY = sy / safeDist;
+        }
+
+        const ai = this.botAi.get(botId) ?? {
+            nextThinkAtMs: 0,
+            nextStrafeFlipAtMs: 0,
+            strafeDir: 1,
+            aim: { x: target.x, y: target.y },
+        };
+
+        if (nowMs >= ai.nextThinkAtMs || ai.targetId !== target.id) {
+            ai.targetId = target.id;
+            ai.nextThinkAtMs = nowMs + config.reactionMs;
+            const jitter = config.aimJitter * (style?.aimMult ?? 1);
+            ai.aim = {
+                x: target.x + (this.random() - 0.5) * jitter * 2,
+                y: target.y + (this.random() - 0.5) * jitter * 2,
+            };
+        }
+        this.botAi.set(botId, ai);
+
+        const keys = {
+            up: moveY < -0.2,
+            down: moveY > 0.2,
+            left: moveX < -0.2,
+            right: moveX > 0.2,
+        };
+        const aim = ai.aim;
+        const shoot = dist < config.shootRange && target.alive;
+
+        return {
+            seq: nowMs,
+            dt: 50,
+            keys,
+            aim,
+            shoot,
+            useItem: false,
+        };
+    }
+
+    private getBotConfig(): {
+        aimJitter: number;
+        reactionMs: number;
+        shootRange: number;
+        speedMult: number;
+    } {
+        if (this.botDifficulty === "easy") {
+            return { aimJitter: 60, reactionMs: 300, shootRange: 450, speedMult: 0.75 };
+        }
+        if (this.botDifficulty === "hard") {
+            return { aimJitter: 10, reactionMs: 100, shootRange: 750, speedMult: 1.05 };
+        }
+        return { aimJitter: 28, reactionMs: 180, shootRange: 650, speedMult: 0.95 };
+    }
+
+    private canUseItem(playerId: string, seq: number): boolean {
+        const lastSeq = this.lastUseItemSeq.get(playerId);
+        if (lastSeq === seq) return false;
+        this.lastUseItemSeq.set(playerId, seq);
+        return true;
+    }
+
+    private activateAbility(
+        player: PlayerState,
+        nowMs: number,
+        input: PlayerInput,
+        events: GameEvent[],
+    ): void {
+        if (!player.heldItem) return;
+        if (!player.alive) return;
+        if (player.heldItem === "echo") {
+            this.trySpawnEcho(player, nowMs, events);
+        } else if (player.heldItem === "time_bubble") {
+            this.spawnTimeBubble(player, nowMs);
+        } else if (player.heldItem === "phase_dash") {
+            // dashing shakes the flag loose
+            this.dropFlag(player.id);
+            this.dashUntilMs.set(player.id, nowMs + PHASE_DASH_MS);
+        } else if (player.heldItem === "shield") {
+            this.activateShield(player, nowMs);
+        } else if (player.heldItem === "rift_sniper") {
+            const fired = this.fireRiftSniper(player, input, nowMs, events);
+            if (!fired) {
+                return;
+            }
+        } else if (player.heldItem === "pulse_nova") {
+            this.firePulseNova(player, nowMs, events);
+        } else if (player.heldItem === "orbital_strike") {
+            this.beginStrikeTargeting(player, nowMs);
+            return;
+        } else if (player.heldItem === "linked_portals") {
+            this.beginPortalPlacement(player, nowMs);
+            return;
+        } else if (player.heldItem === "annihilation_bouncer") {
+            const fired = this.fireAnnihilationBouncer(player, input);
+            if (!fired) {
+                return;
+            }
+        } else if (player.heldItem === "void_slice") {
+            const fired = this.fireVoidSlice(player, input);
+            if (!fired) {
+                return;
+            }
+        }
+        this.stats.recordAbility(player.id, player.heldItem);
+        player.heldItem = null;
+    }
+
+    private fireAnnihilationBouncer(player: PlayerState, input: PlayerInput): boolean {
+        if (player.isEcho) return false;
+        const dx = input.aim.x - player.x;
+        const dy = input.aim.y - player.y;
+        const length = Math.hypot(dx, dy);
+        if (length < 0.001) return false;
+        const nx = dx / length;
+        const ny = dy / length;
+        const spawnOffset = player.r + BOUNCER_RADIUS + 4;
+        const bullet: BulletState = {
+            id: `${this.id}-b-${this.bulletSeq++}`,
+            kind: "bouncer",
+            ownerId: player.id,
+            ownerRootId: player.id,
+            x: player.x + nx * spawnOffset,
+            y: player.y + ny * spawnOffset,
+            vx: nx * BOUNCER_SPEED,
+            vy: ny * BOUNCER_SPEED,
+            ttlMs: BOUNCER_TTL_MS,
+            bouncesLeft: BOUNCER_BOUNCES,
+            damage: BOUNCER_DAMAGE,
+            radius: BOUNCER_RADIUS,
+        };
+        this.bullets.set(bullet.id, bullet);
+        return true;
+    }
+
+    private fireVoidSlice(player: PlayerState, input: PlayerInput): boolean {
+        if (player.isEcho) return false;
+        const dx = input.aim.x - player.x;
+        const dy = input.aim.y - player.y;
+        const length = Math.hypot(dx, dy);
+        if (length < 0.001) return false;
+        const nx = dx / length;
+        const ny = dy / length;
+        const spawnOffset = player.r + 8;
+        const bullet: BulletState = {
+            id: `${this.id}-s-${this.bulletSeq++}`,
+            kind: "slash",
+            ownerId: player.id,
+            ownerRootId: player.id,
+            x: player.x + nx * spawnOffset,
+            y: player.y + ny * spawnOffset,
+            vx: nx * SLASH_SPEED,
+            vy: ny * SLASH_SPEED,
+            ttlMs: SLASH_TTL_MS,
+            isSlash: true,
+            damage: SLASH_DAMAGE,
+            r: SLICE_RADIUS,
+            reflectsLeft: SLASH_REFLECTS,
+            portalJumpsLeft: PORTAL_BULLET_JUMPS,
+            portalCooldownUntilMs: 0,
+        };
+        this.bullets.set(bullet.id, bullet);
+        return true;
+    }
+
+    private beginStrikeTargeting(player: PlayerState, nowMs: number): void {
+        if (player.isEcho) return;
+        const pending = this.pendingStrikes.get(player.id);
+        if (pending && pending.active && nowMs <= pending.expiresAtMs) return;
+        this.pendingStrikes.set(player.id, {
+            active: true,
+            expiresAtMs: nowMs + STRIKE_TARGET_WINDOW_MS,
+        });
+        this.notify("Select target (LMB)", player.id);
+    }
+
+    private beginPortalPlacement(player: PlayerState, nowMs: number): void {
+        if (player.isEcho) return;
+        if (this.pendingPortals.has(player.id)) return;
+        const portal: PortalState = {
+            id: `${this.id}-p-${this.portalSeq++}`,
+            ownerId: player.id,
+            a: { x: player.x, y: player.y, r: PORTAL_RADIUS },
+            createdAtMs: nowMs,
+        };
+        this.pendingPortals.set(player.id, {
+            portal,
+            expiresAtMs: nowMs + PORTAL_PENDING_MS,
+        });
+        this.notify("Place portal B (LMB)", player.id);
+    }
+
+    confirmPortalB(playerId: string, x: number, y: number): void {
+        this.record({ type: "portal", playerId, x, y });
+        const nowMs = this.timeMs;
+        if (this.match.phase !== "playing") return;
+        const player = this.players.get(playerId);
+        if (!player || player.isEcho || !player.alive) return;
+        const pending = this.pendingPortals.get(playerId);
+        if (!pending || nowMs > pending.expiresAtMs) {
+            this.pendingPortals.delete(playerId);
+            return;
+        }
+        if (player.heldItem !== "linked_portals") return;
+        const target = {
+            x: clamp(x, 0, ARENA.w),
+            y: clamp(y, 0, ARENA.h),
+        };
+        pending.portal.b = { x: target.x, y: target.y, r: PORTAL_RADIUS };
+        pending.portal.expiresAtMs = nowMs + PORTAL_DURATION_MS;
+        this.portals.push(pending.portal);
+        this.pendingPortals.delete(playerId);
+        this.stats.recordAbility(playerId, "linked_portals");
+        player.heldItem = null;
+    }
+
+    private activateShield(player: PlayerState, nowMs: number): void {
+        if (player.isEcho) return;
+        player.shieldHp = 2;
+        this.shieldUntilMs.set(player.id, nowMs + SHIELD_DURATION_MS);
+    }
+
+    private fireRiftSniper(
+        player: PlayerState,
+        input: PlayerInput,
+        nowMs: number,
+        events: GameEvent[],
+    ): boolean {
+        if (player.isEcho) return false;
+        const dx = input.aim.x - player.x;
+        const dy = input.aim.y - player.y;
+        const length = Math.hypot(dx, dy);
+        if (length < 0.001) return false;
+        const nx = dx / length;
+        const ny = dy / length;
+        const end = this.rayToArenaEdge(player.x, player.y, nx, ny);
+        events.push({ type: "beam_fire", byId: player.id, from: { x: player.x, y: player.y }, to: end });
+
+        for (const target of this.players.values()) {
+            if (!target.alive) continue;
+            if (target.id === player.id) continue;
+            if (target.isEcho && target.ownerId === player.id) continue;
+            if (!this.canDamage(player.id, target)) continue;
+            const targetPos = this.getLagCompensatedPosition(target, player.id, nowMs);
+            if (!this.segmentIntersectsCircle(
+                player.x,
+                player.y,
+                end.x,
+                end.y,
+                targetPos.x,
+                targetPos.y,
+                target.r,
+            )) {
+                continue;
+            }
+            if (!target.isEcho && this.isShieldActive(target.id, nowMs)) {
+                this.breakShield(target.id, events);
+                continue;
+            }
+            this.killEntity(target, player.id, events);
+        }
+        return true;
+    }
+
+    private firePulseNova(player: PlayerState, nowMs: number, events: GameEvent[]): void {
+        if (player.isEcho) return;
+        const burstId = `${this.id}-n-${this.novaSeq++}`;
+        const spawnRadius = player.r + NOVA_SPAWN_OFFSET;
+        for (let i = 0; i < NOVA_BULLET_COUNT; i += 1) {
+            const angle = (i / NOVA_BULLET_COUNT) * Math.PI * 2;
+            const nx = Math.cos(angle);
+            const ny = Math.sin(angle);
+            const bullet: BulletState = {
+                id: `${this.id}-b-${this.bulletSeq++}`,
+                kind: "nova",
+                ownerId: player.id,
+                ownerRootId: player.id,
+                x: player.x + nx * spawnRadius,
+                y: player.y + ny * spawnRadius,
+                vx: nx * NOVA_BULLET_SPEED,
+                vy: ny * NOVA_BULLET_SPEED,
+                ttlMs: NOVA_BULLET_TTL_MS,
+                burstId,
+                portalJumpsLeft: PORTAL_BULLET_JUMPS,
+                bulletPortalCooldownUntilMs: 0,
+            };
+            this.bullets.set(bullet.id, bullet);
+        }
+        events.push({ type: "nova_fire", byId: player.id });
+    }
+
+    private spawnTimeBubble(player: PlayerState, nowMs: number): void {
+        const zone: ZoneState = {
+            id: `${this.id}-z-${this.zoneSeq++}`,
+            kind: "time_bubble",
+            x: player.x,
+            y: player.y,
+            r: TIME_BUBBLE_RADIUS,
+            expiresAtMs: nowMs + TIME_BUBBLE_LIFETIME_MS,
+        };
+        this.zones.set(zone.id, zone);
+    }
+
+    private updateZones(nowMs: number): void {
+        for (const [zoneId, zone] of this.zones.entries()) {
+            if (zone.expiresAtMs <= nowMs) {
+                this.zones.delete(zoneId);
+            }
+        }
+    }
+
+    private updatePendingStrikes(nowMs: number): void {
+        for (const [playerId, pending] of this.pendingStrikes.entries()) {
+            if (!pending.active || nowMs > pending.expiresAtMs) {
+                this.pendingStrikes.delete(playerId);
+            }
+        }
+    }
+
+    private updatePendingPortals(nowMs: number): void {
+        for (const [playerId, pending] of this.pendingPortals.entries()) {
+            if (nowMs > pending.expiresAtMs) {
+                this.pendingPortals.delete(playerId);
+            }
+        }
+    }
+
+    private updateShields(nowMs: number): void {
+        for (const player of this.players.values()) {
+            if (player.isEcho) {
+                player.shieldHp = undefined;
+                continue;
+            }
+            if (!this.isShieldActive(player.id, nowMs)) {
+                player.shieldHp = 0;
+            }
+        }
+    }
+
+    private updateStrikes(nowMs: number, events: GameEvent[]): void {
+        if (this.match.phase !== "playing") return;
+        const pending: Strike[] = [];
+        for (const strike of this.strikes) {
+            if (nowMs >= strike.explodeAtMs) {
+                this.resolveStrike(strike, nowMs, events);
+            } else {
+                pending.push(strike);
+            }
+        }
+        this.strikes = pending;
+    }
+
+    private updatePortals(nowMs: number): void {
+        this.portals = this.portals.filter(
+            (portal) => !portal.expiresAtMs || nowMs < portal.expiresAtMs,
+        );
+    }
+
+    private updatePortalEntities(nowMs: number): void {
+        for (const portal of this.portals) {
+            if (!portal.b) continue;
+            const a = portal.a;
+            const b = portal.b;
+            for (const entity of this.players.values()) {
+                // portals can't carry flags, so carriers walk straight over them
+                if (!entity.alive || this.isCarryingFlag(entity.id)) continue;
+                const cooldownKey = `${entity.id}:${portal.id}`;
+                const cooldown = this.portalCooldownUntilMs.get(cooldownKey) ?? 0;
+                if (nowMs < cooldown) continue;
+                if (isInsideCircle(entity.x, entity.y, a.x, a.y, a.r + entity.r)) {
+                    entity.x = b.x;
+                    entity.y = b.y;
+                    this.portalCooldownUntilMs.set(
+                        cooldownKey,
+                        nowMs + PORTAL_ENTITY_COOLDOWN_MS,
+                    );
+                } else if (isInsideCircle(entity.x, entity.y, b.x, b.y, b.r + entity.r)) {
+                    entity.x = a.x;
+                    entity.y = a.y;
+                    this.portalCooldownUntilMs.set(
+                        cooldownKey,
+                        nowMs + PORTAL_ENTITY_COOLDOWN_MS,
+                    );
+                }
+            }
+        }
+    }
+
+    private updatePortalBullets(nowMs: number): void {
+        for (const portal of this.portals) {
+            if (!portal.b) continue;
+            const a = portal.a;
+            const b = portal.b;
+            for (const bullet of this.bullets.values()) {
+                const jumpsLeft = bullet.portalJumpsLeft ?? PORTAL_BULLET_JUMPS;
+                if (jumpsLeft <= 0) continue;
+                const cooldown = bullet.isSlash
+                    ? bullet.portalCooldownUntilMs ?? 0
+                    : bullet.bulletPortalCooldownUntilMs ?? 0;
+                if (nowMs < cooldown) continue;
+                if (isInsideCircle(bullet.x, bullet.y, a.x, a.y, a.r)) {
+                    this.teleportBullet(bullet, b);
+                    bullet.portalJumpsLeft = jumpsLeft - 1;
+                    if (bullet.isSlash) {
+                        bullet.portalCooldownUntilMs = nowMs + PORTAL_BULLET_COOLDOWN_MS;
+                    } else {
+                        bullet.bulletPortalCooldownUntilMs = nowMs + PORTAL_BULLET_COOLDOWN_MS;
+                    }
+                } else if (isInsideCircle(bullet.x, bullet.y, b.x, b.y, b.r)) {
+                    this.teleportBullet(bullet, a);
+                    bullet.portalJumpsLeft = jumpsLeft - 1;
+                    if (bullet.isSlash) {
+                        bullet.portalCooldownUntilMs = nowMs + PORTAL_BULLET_COOLDOWN_MS;
+                    } else {
+                        bullet.bulletPortalCooldownUntilMs = nowMs + PORTAL_BULLET_COOLDOWN_MS;
+                    }
+                }
+            }
+        }
+    }
+
+    private teleportBullet(bullet: BulletState, portal: { x: number; y: number; r: number }): void {
+        const len = Math.hypot(bullet.vx, bullet.vy) || 1;
+        const nx = bullet.vx / len;
+        const ny = bullet.vy / len;
+        const offset = portal.r + 6;
+        bullet.x = portal.x + nx * offset;
+        bullet.y = portal.y + ny * offset;
+        bullet.vx = -bullet.vx;
+        bullet.vy = -bullet.vy;
+    }
+
+    private getMoveMultiplier(
+        playerId: string,
+        player: PlayerState,
+        nowMs: number,
+        isEcho = false,
+    ): number {
+        if (isEcho) return getTimeBubbleMoveMultAt(this.zones.values(), player.x, player.y);
+        return getPlayerMoveMult(
+            this.zones.values(),
+            player,
+            this.isCarryingFlag(playerId),
+            this.isDashing(playerId, nowMs),
+        );
+    }
+
+    private isDashing(playerId: string, nowMs: number): boolean {
+        const until = this.dashUntilMs.get(playerId) ?? 0;
+        return nowMs < until;
+    }
+
+    private getBulletMultiplierAt(x: number, y: number): number {
+        for (const zone of this.zones.values()) {
+            if (zone.kind !== "time_bubble") continue;
+            const dx = x - zone.x;
+            const dy = y - zone.y;
+            if (dx * dx + dy * dy <= zone.r * zone.r) {
+                return TIME_BUBBLE_BULLET_MULT;
+            }
+        }
+        return 1;
+    }
+
+    private collectPickups(): void {
+        for (const player of this.players.values()) {
+            if (player.isEcho || !player.alive) continue;
+            // pickups are for the humans; tricksters bring their own
+            if (player.heldItem || player.archetype) continue;
+            for (const pickup of this.pickups.values()) {
+                const dx = player.x - pickup.x;
+                const dy = player.y - pickup.y;
+                const hitRadius = player.r + pickup.r;
+                if (dx * dx + dy * dy <= hitRadius * hitRadius) {
+                    if (pickup.type === "shield" || pickup.type === "rift_sniper") {
+                        if (player.isEcho) continue;
+                    }
+                    player.heldItem = pickup.type;
+                    this.pickups.delete(pickup.id);
+                    this.schedulePickupRespawn(pickup.type);
+                    break;
+                }
+            }
+        }
+    }
+
+    private schedulePickupRespawn(type: AbilityType): void {
+        this.schedule(type === "rift_sniper" ? RIFT_SNIPER_RESPAWN_MS : PICKUP_RESPAWN_MS, () => {
+            if (this.pickups.size < PICKUP_COUNT) {
+                this.spawnPickup();
+            }
+        });
+    }
+
+    private spawnInitialPickups(): void {
+        for (let i = 0; i < PICKUP_COUNT; i += 1) {
+            this.spawnPickup();
+        }
+    }
+
+    private spawnPickup(): void {
+        let type = ABILITIES[Math.floor(this.random() * ABILITIES.length)];
+        if (type === "rift_sniper" && this.countPickups("rift_sniper") >= RIFT_SNIPER_MAX) {
+            type = "shield";
+        }
+        const { x, y } = this.randomPickupPosition();
+        const pickup: PickupState = {
+            id: `${this.id}-p-${this.pickupSeq++}`,
+            type,
+            x,
+            y,
+            r: PICKUP_RADIUS,
+        };
+        this.pickups.set(pickup.id, pickup);
+    }
+
+    private countPickups(type: AbilityType): number {
+        let count = 0;
+        for (const pickup of this.pickups.values()) {
+            if (pickup.type === type) count += 1;
+        }
+        return count;
+    }
+
+    private randomPickupPosition(): { x: number; y: number } {
+        const x =
+            PICKUP_PADDING +
+            this.random() * (ARENA.w - PICKUP_PADDING * 2);
+        const y =
+            PICKUP_PADDING +
+            this.random() * (ARENA.h - PICKUP_PADDING * 2);
+        return { x, y };
+    }
+
+    private trySpawnEcho(
+        player: PlayerState,
+        nowMs: number,
+        events: GameEvent[],
+    ): void {
+        if (!player.alive) return;
+
+        const echoId = `${this.id}-e-${this.echoSeq++}`;
+        const spawn = { x: player.x + 8, y: player.y + 8 };
+        this.players.set(echoId, {
+            id: echoId,
+            name: `${player.name} Echo`,
+            x: spawn.x,
+            y: spawn.y,
+            r: PLAYER_RADIUS,
+            hp: ECHO_HP,
+            maxHp: ECHO_HP,
+            alive: true,
+            kills: 0,
+            deaths: 0,
+            isEcho: true,
+            ownerId: player.id,
+            heldItem: null,
+            shieldHp: 0,
+            team: player.team,
+        });
+        this.echoes.set(echoId, {
+            ownerId: player.id,
+            expiresAtMs: nowMs + ECHO_LIFETIME_MS,
+        });
+        this.lastShotAtMs.set(echoId, 0);
+        events.push({ type: "spawn_echo", ownerId: player.id, echoId });
+    }
+
+    private handleDeath(playerId: string): void {
+        this.dropFlag(playerId);
+        const player = this.players.get(playerId);
+        if (!player) return;
+        if (player.isEcho) {
+            this.echoes.delete(playerId);
+            this.players.delete(playerId);
+            this.lastShotAtMs.delete(playerId);
+            return;
+        }
+        player.shieldHp = 0;
+        this.shieldUntilMs.delete(playerId);
+        // wave bots are gone for good; updateWave clears them out next step
+        if (player.archetype) return;
+        const wave = this.match.wave;
+        if (wave && !player.isBot && this.match.phase === "playing") {
+            if (wave.livesLeft === 0) {
+                player.lives = 0;
+                this.notify(`${player.name} is out`);
+                return;
+            }
+            this.match.wave = { ...wave, livesLeft: wave.livesLeft - 1 };
+        }
+        if (player.lives !== undefined && this.match.phase === "playing") {
+            player.lives = Math.max(0, player.lives - 1);
+            if (player.lives === 0) {
+                this.notify(`${player.name} is out`);
+                return;
+            }
+        }
+        if (this.match.phase === "playing") {
+            this.scheduleRespawn(playerId);
+        }
+    }
+
+    private isShieldActive(playerId: string, nowMs: number): boolean {
+        const until = this.shieldUntilMs.get(playerId) ?? 0;
+        const player = this.players.get(playerId);
+        return !!player && !player.isEcho && (player.shieldHp ?? 0) > 0 && nowMs < until;
+    }
+
+    private breakShield(playerId: string, events: GameEvent[]): void {
+        const player = this.players.get(playerId);
+        if (!player || player.isEcho) return;
+        player.shieldHp = 0;
+        this.shieldUntilMs.delete(playerId);
+        events.push({ type: "shield_break", id: playerId });
+    }
+
+    private handleShieldHit(playerId: string, byRootId: string, events: GameEvent[]): boolean {
+        const now = this.timeMs;
+        if (!this.isShieldActive(playerId, now)) return false;
+        const player = this.players.get(playerId);
+        if (!player || player.isEcho) return false;
+        const nextHp = Math.max(0, (player.shieldHp ?? 0) - 1);
+        player.shieldHp = nextHp;
+        events.push({ type: "shield_hit", id: playerId, hpLeft: nextHp });
+        if (nextHp === 0) {
+            this.breakShield(playerId, events);
+        }
+        return true;
+    }
+
+    private shouldIgnoreNovaHit(
+        bullet: BulletState,
+        playerId: string,
+        nowMs: number,
+    ): boolean {
+        if (!bullet.burstId) return false;
+        const key = `${bullet.burstId}:${playerId}`;
+        const lastHit = this.novaHitCooldown.get(key) ?? 0;
+        if (nowMs - lastHit < NOVA_HIT_COOLDOWN_MS) {
+            return true;
+        }
+        this.novaHitCooldown.set(key, nowMs);
+        this.gcNovaCooldowns(nowMs);
+        return false;
+    }
+
+    private gcNovaCooldowns(nowMs: number): void {
+        const cutoff = nowMs - 1000;
+        for (const [key, value] of this.novaHitCooldown.entries()) {
+            if (value < cutoff) {
+                this.novaHitCooldown.delete(key);
+            }
+        }
+    }
+
+    private killEntity(target: PlayerState, byRootId: string, events: GameEvent[]): void {
+        if (!target.alive) return;
+        this.stats.recordDamage(byRootId, target.id, target.hp);
+        this.stats.recordKill(byRootId, target.id);
+        target.alive = false;
+        target.deaths += 1;
+        const killer = this.players.get(byRootId);
+        if (killer) {
+            killer.kills += 1;
+        }
+        events.push({ type: "death", id: target.id, byRootId });
+        this.handleDeath(target.id);
+    }
+
+    // one point per enemy player killed this step; echoes and teammates score nothing
+    private scoreTeamKills(events: GameEvent[]): void {
+        if (this.mode !== "tdm") return;
+        for (const event of events) {
+            if (event.type !== "death" || !event.byRootId) continue;
+            const victim = this.players.get(event.id);
+            const killer = this.players.get(event.byRootId) ?? this.parked.get(event.byRootId);
+            if (!victim || victim.isEcho || !killer?.team || this.isTeammate(killer, victim)) {
+                continue;
+            }
+            this.addTeamScore(killer.team, 1);
+        }
+    }
+
+    private addTeamScore(teamId: TeamId, points: number): void {
+        if (!this.match.teams || this.match.phase !== "playing") return;
+        this.match.teams = this.match.teams.map((team) =>
+            team.id === teamId ? { id: team.id, score: team.score + points } : team,
+        );
+    }
+
+    // every side's score, best first: teams, solo hill points or, in ffa, kills
+    private standings(): { side: string; score: number }[] {
+        if (this.match.teams) {
+            return this.match.teams
+                .map((team) => ({ side: team.id as string, score: team.score }))
+                .sort((a, b) => b.score - a.score);
+        }
+        return [...this.players.values(), ...this.parked.values()]
+            .filter((player) => !player.isEcho)
+            .map((player) => ({
+                side: player.id,
+                score: this.usesPlayerScore() ? (player.score ?? 0) : player.kills,
+            }))
+            .sort((a, b) => b.score - a.score);
+    }
+
+    // lms and survival end on their own terms
+    private usesStandings(): boolean {
+        return this.mode !== "lms" && this.mode !== "survival";
+    }
+
+    private checkScoreWin(): void {
+        if (!this.usesStandings()) return;
+        const [first, second] = this.standings();
+        if (!first) return;
+        const lead = first.score - (second?.score ?? 0);
+        if (this.match.overtime) {
+            if (lead > 0) this.endMatch([first.side], "overtime");
+            return;
+        }
+        const limit = this.match.scoreLimit ?? 0;
+        if (this.match.winCondition === "time" || limit <= 0 || first.score < limit) return;
+        if (lead >= Math.max(1, this.match.leadMargin ?? 0)) {
+            this.endMatch([first.side], "score_limit");
+        }
+    }
+
+    // the leader wins at time-out; a tie at the top goes to sudden death
+    private handleTimeUp(): void {
+        if (!this.usesStandings()) {
+            this.endMatch(this.mode === "lms" ? this.roundLeaders() : [], "time_limit");
+            return;
+        }
+        const [first, second] = this.standings();
+        if (first && second && first.score === second.score) {
+            this.match.endsAtMs = undefined;
+            this.match.overtime = true;
+            this.notify("Overtime: next score wins");
+            return;
+        }
+        this.endMatch(first ? [first.side] : [], "time_limit");
+    }
+
+    private endMatch(winnerIds: string[], reason: MatchEndReason, message?: string): void {
+        const winners = winnerIds.map((id) => ({ id, name: this.sideLabel(id) }));
+        this.match.phase = "ended";
+        this.match.overtime = undefined;
+        const names = winners.map((winner) => winner.name);
+        if (message) {
+            this.notify(message);
+        } else if (names.length === 1) {
+            this.notify(`${names[0]} wins`);
+        } else if (names.length > 1) {
+            this.notify(`Draw between ${names.join(" and ")}`);
+        } else {
+            this.notify("Match ended");
+        }
+        const pilots = [...this.players.values(), ...this.parked.values()].filter(
+            (player) => !player.isEcho && !player.archetype,
+        );
+        const summary = this.stats.summarize(pilots);
+        this.notifications.push({ type: "match_ended", result: { winners, reason, summary } });
+    }
+
+    private usesPlayerScore(): boolean {
+        return this.mode === "koth" && !this.match.teams;
+    }
+
+    // the side a player scores for: their team, or themselves when playing solo
+    private sideOf(player: PlayerState): string {
+        return player.team ?? player.id;
+    }
+
+    private sideLabel(side: string): string {
+        const team = this.match.teams?.find((entry) => entry.id === side);
+        if (team) return `${teamLabel(team.id)} team`;
+        return this.players.get(side)?.name ?? this.parked.get(side)?.name ?? "Someone";
+    }
+
+    private placeHill(nowMs: number): void {
+        const reach = HILL_RADIUS + HILL_PADDING;
+        this.hill = {
+            id: `${this.id}-hill`,
+            kind: "control",
+            x: reach + this.random() * (ARENA.w - reach * 2),
+            y: reach + this.random() * (ARENA.h - reach * 2),
+            r: HILL_RADIUS,
+            expiresAtMs: nowMs + this.hillRelocateMs,
+            progress: 0,
+            contested: false,
+        };
+        this.hillHeldMs = 0;
+    }
+
+    // a sole side on the hill first captures it, then scores a point per second held
+    private updateHill(nowMs: number): void {
+        if (this.mode !== "koth") return;
+        if (!this.hill) {
+            this.placeHill(nowMs);
+        } else if (nowMs >= this.hill.expiresAtMs) {
+            this.placeHill(nowMs);
+            this.notify("The hill moved");
+        }
+        const hill = this.hill;
+        if (!hill) return;
+        const sides = new Set<string>();
+        for (const player of this.players.values()) {
+            if (!player.alive || player.isEcho) continue;
+            if (isInsideCircle(player.x, player.y, hill.x, hill.y, hill.r)) {
+                sides.add(this.sideOf(player));
+            }
+        }
+        hill.contested = sides.size > 1;
+        if (sides.size === 0) {
+            hill.progress = Math.max(0, (hill.progress ?? 0) - TICK_MS / HILL_CAPTURE_MS);
+            if (hill.progress === 0) hill.capturingId = undefined;
+            return;
+        }
+        if (hill.contested) return;
+        const [side] = sides;
+        if (side === hill.ownerId) {
+            this.hillHeldMs += TICK_MS;
+            if (this.hillHeldMs >= HILL_POINT_MS) {
+                this.hillHeldMs -= HILL_POINT_MS;
+                this.addHillPoint(side);
+            }
+            return;
+        }
+        if (hill.capturingId !== side) {
+            hill.capturingId = side;
+            hill.progress = 0;
+        }
+        hill.progress = Math.min(1, (hill.progress ?? 0) + TICK_MS / HILL_CAPTURE_MS);
+        if (hill.progress >= 1) {
+            hill.ownerId = side;
+            hill.capturingId = undefined;
+            hill.progress = 0;
+            this.hillHeldMs = 0;
+            this.notify(`${this.sideLabel(side)} took the hill`);
+        }
+    }
+
+    private addHillPoint(side: string): void {
+        if (this.match.teams) {
+            this.addTeamScore(side as TeamId, 1);
+            return;
+        }
+        const player = this.players.get(side);
+        if (!player) return;
+        player.score = (player.score ?? 0) + 1;
+    }
+
+    // the circle goes first so everyone respawns inside it
+    // the first round keeps the spawns handed out for the countdown
+    private startRound(round: number, respawn = true): void {
+        this.placeCircle(this.timeMs);
+        if (respawn) this.resetForMatch();
+        this.match.round = round;
+        this.roundOver = false;
+        this.roundEntrants = 0;
+        for (const player of this.players.values()) {
+            if (!player.isEcho) this.roundEntrants += 1;
+        }
+        if (round > 1) this.notify(`Round ${round}`);
+    }
+
+    // the last player standing takes the round; a lone entrant plays on until they are out
+    private updateRound(): void {
+        if (this.mode !== "lms" || this.roundOver) return;
+        const standing = Array.from(this.players.values()).filter(
+            (player) => !player.isEcho && (player.alive || (player.lives ?? 0) > 0),
+        );
+        if (standing.length > (this.roundEntrants >= 2 ? 1 : 0)) return;
+        this.endRound(standing[0]);
+    }
+
+    private endRound(winner: PlayerState | undefined): void {
+        const round = this.match.round ?? 1;
+        this.roundOver = true;
+        this.match.roundWinners = [...(this.match.roundWinners ?? []), winner?.id ?? ""];
+        this.notify(
+            winner ? `${winner.name} wins round ${round}` : `Nobody survived round ${round}`,
+        );
+        const leaders = this.roundLeaders();
+        const best = this.match.roundWinners.filter((id) => id && id === leaders[0]).length;
+        // a majority of the rounds settles it early
+        if (round < this.roundCount && best <= this.roundCount / 2) {
+            this.schedule(ROUND_BREAK_MS, () => {
+                if (this.match.phase !== "playing" || !this.roundOver) return;
+                if (this.match.round !== round) return;
+                this.startRound(round + 1);
+            });
+            return;
+        }
+        this.endMatch(
+            leaders,
+            "rounds",
+            leaders.length === 1 ? `${this.sideLabel(leaders[0])} wins the match` : undefined,
+        );
+    }
+
+    // the players with the most round wins so far
+    private roundLeaders(): string[] {
+        const wins = new Map<string, number>();
+        for (const id of this.match.roundWinners ?? []) {
+            if (id) wins.set(id, (wins.get(id) ?? 0) + 1);
+        }
+        const best = Math.max(0, ...wins.values());
+        return Array.from(wins.keys()).filter((id) => wins.get(id) === best);
+    }
+
+    private placeCircle(nowMs: number): void {
+        this.circleFrom = { x: ARENA.w / 2, y: ARENA.h / 2, r: CIRCLE_START_R };
+        this.match.circle = { ...this.circleFrom, next: this.planShrink(this.circleFrom, nowMs) };
+        this.nextCircleDamageAtMs = nowMs + CIRCLE_DAMAGE_MS;
+    }
+
+    // the next circle lies inside the current one and inside the arena where it can
+    private planShrink(
+        from: { x: number; y: number; r: number },
+        nowMs: number,
+    ): NonNullable<SafeCircle["next"]> | undefined {
+        if (from.r <= CIRCLE_MIN_R) return undefined;
+        const r = Math.max(CIRCLE_MIN_R, from.r * CIRCLE_SHRINK_FACTOR);
+        const angle = this.random() * Math.PI * 2;
+        const offset = this.random() * (from.r - r);
+        const startsAtMs = nowMs + CIRCLE_HOLD_MS;
+        this.circleWarned = false;
+        return {
+            x: clamp(from.x + Math.cos(angle) * offset, r, ARENA.w - r),
+            y: clamp(from.y + Math.sin(angle) * offset, r, ARENA.h - r),
+            r,
+            startsAtMs,
+            endsAtMs: startsAtMs + CIRCLE_SHRINK_MS,
+        };
+    }
+
+    private updateCircle(nowMs: number, events: GameEvent[]): void {
+        const circle = this.match.circle;
+        const from = this.circleFrom;
+        if (!circle || !from) return;
+        const next = circle.next;
+        if (next && !this.circleWarned && nowMs >= next.startsAtMs - CIRCLE_WARNING_MS) {
+            this.circleWarned = true;
+            this.notify(`The circle shrinks in ${Math.round(CIRCLE_WARNING_MS / 1000)}s`);
+        }
+        if (next && nowMs >= next.startsAtMs) {
+            const t = Math.min(1, (nowMs - next.startsAtMs) / (next.endsAtMs - next.startsAtMs));
+            this.match.circle = {
+                x: from.x + (next.x - from.x) * t,
+                y: from.y + (next.y - from.y) * t,
+                r: from.r + (next.r - from.r) * t,
+                next,
+            };
+            if (t >= 1) {
+                this.circleFrom = { x: next.x, y: next.y, r: next.r };
+                this.match.circle = {
+                    ...this.circleFrom,
+                    next: this.planShrink(this.circleFrom, nowMs),
+                };
+            }
+        }
+        if (nowMs < this.nextCircleDamageAtMs) return;
+        this.nextCircleDamageAtMs = nowMs + CIRCLE_DAMAGE_MS;
+        const safe = this.match.circle;
+        if (!safe) return;
+        for (const player of Array.from(this.players.values())) {
+            if (!player.alive) continue;
+            if (isInsideCircle(player.x, player.y, safe.x, safe.y, safe.r)) continue;
+            this.stats.recordDamage(undefined, player.id, Math.min(1, player.hp));
+            player.hp = Math.max(0, player.hp - 1);
+            if (player.hp > 0) continue;
+            this.stats.recordKill(undefined, player.id);
+            player.alive = false;
+            player.deaths += 1;
+            events.push({ type: "death", id: player.id });
+            this.handleDeath(player.id);
+        }
+    }
+
+    // humans only score by surviving; the match ends once every one of them is out
+    private updateWave(nowMs: number): void {
+        const wave = this.match.wave;
+        if (!wave) return;
+        for (const botId of [...this.botIds]) {
+            if (!this.players.get(botId)?.alive) this.removeBot(botId);
+        }
+        const humans = Array.from(this.players.values()).filter(
+            (player) => !player.isEcho && !player.isBot,
+        );
+        if (humans.length > 0 && humans.every((player) => player.lives === 0)) {
+            this.endMatch([], "overrun", `Overrun on wave ${wave.number}`);
+            return;
+        }
+        let next: WaveState =
+            wave.enemiesLeft === this.botIds.length
+                ? wave
+                : { ...wave, enemiesLeft: this.botIds.length };
+        if (next.phase === "fighting" && next.enemiesLeft === 0) {
+            next = { ...next, phase: "intermission", nextAtMs: nowMs + WAVE_INTERMISSION_MS };
+            this.notify(`Wave ${next.number} cleared`);
+        }
+        this.match.wave = next;
+        if (nowMs >= next.nextAtMs) {
+            this.startWave(next, nowMs);
+        }
+    }
+
+    // a wave still standing when the timer runs out is joined by the next one
+    private startWave(previous: WaveState, nowMs: number): void {
+        const number = previous.number + 1;
+        this.match.wave = {
+            ...previous,
+            number,
+            phase: "fighting",
+            nextAtMs: nowMs + WAVE_BASE_MS + number * WAVE_EXTRA_MS,
+        };
+        // rushers first, then one new archetype per wave
+        const unlocked = BOT_ARCHETYPES.slice(0, number);
+        const size =
+            WAVE_BASE_SIZE + (number - 1) * WAVE_GROWTH + Math.max(0, this.getHumanCount() - 1);
+        const count = Math.min(size, Math.max(0, WAVE_MAX_BOTS - this.botIds.length));
+        for (let i = 0; i < count; i += 1) {
+            this.spawnBot(unlocked[Math.floor(this.random() * unlocked.length)]);
+        }
+        this.match.wave = { ...this.match.wave, enemiesLeft: this.botIds.length };
+        this.notify(`Wave ${number}`);
+    }
+
+    private isCarryingFlag(playerId: string): boolean {
+        for (const flag of this.flags.values()) {
+            if (flag.carrierId === playerId) return true;
+        }
+        return false;
+    }
+
+    private updateFlags(nowMs: number): void {
+        for (const flag of this.flags.values()) {
+            if (flag.carrierId) {
+                const carrier = this.players.get(flag.carrierId);
+                if (!carrier?.alive) {
+                    this.dropFlag(flag.carrierId);
+                    continue;
+                }
+                flag.x = carrier.x;
+                flag.y = carrier.y;
+                this.tryCapture(flag, carrier);
+                continue;
+            }
+            if (flag.returnsAtMs !== undefined && nowMs >= flag.returnsAtMs) {
+                this.returnFlag(flag);
+                this.notify(`${teamLabel(flag.id)} flag returned`);
+                continue;
+            }
+            for (const player of this.players.values()) {
+                if (!player.alive || player.isEcho || !player.team || player.team === flag.id) {
+                    continue;
+                }
+                const reach = player.r + FLAG_PICKUP_RADIUS;
+                if (!isInsideCircle(player.x, player.y, flag.x, flag.y, reach)) continue;
+                if (this.isCarryingFlag(player.id)) continue;
+                flag.carrierId = player.id;
+                flag.returnsAtMs = undefined;
+                this.notify(`${player.name} took the ${teamLabel(flag.id)} flag`);
+                break;
+            }
+        }
+    }
+
+    // scores when the carrier reaches their own base while their own flag is home
+    private tryCapture(flag: FlagState, carrier: PlayerState): void {
+        if (!carrier.team) return;
+        const own = this.flags.get(carrier.team);
+        if (!own || own.carrierId || own.returnsAtMs !== undefined) return;
+        if (!isInsideCircle(carrier.x, carrier.y, own.baseX, own.baseY, FLAG_CAPTURE_RADIUS)) {
+            return;
+        }
+        this.returnFlag(flag);
+        this.notify(`${carrier.name} captured the ${teamLabel(flag.id)} flag`);
+        this.addTeamScore(carrier.team, 1);
+    }
+
+    private dropFlag(playerId: string): void {
+        for (const flag of this.flags.values()) {
+            if (flag.carrierId !== playerId) continue;
+            const carrier = this.players.get(playerId);
+            if (carrier) {
+                flag.x = carrier.x;
+                flag.y = carrier.y;
+            }
+            flag.carrierId = undefined;
+            flag.returnsAtMs = this.timeMs + FLAG_RETURN_MS;
+            this.notify(`${teamLabel(flag.id)} flag dropped`);
+        }
+    }
+
+    private returnFlag(flag: FlagState): void {
+        flag.x = flag.baseX;
+        flag.y = flag.baseY;
+        flag.carrierId = undefined;
+        flag.returnsAtMs = undefined;
+    }
+
+    confirmStrike(playerId: string, x: number, y: number): void {
+        this.record({ type: "strike", playerId, x, y });
+        const nowMs = this.timeMs;
+        if (this.match.phase !== "playing") return;
+        const player = this.players.get(playerId);
+        if (!player || player.isEcho || !player.alive) return;
+        const pending = this.pendingStrikes.get(playerId);
+        if (!pending || !pending.active || nowMs > pending.expiresAtMs) return;
+        if (player.heldItem !== "orbital_strike") return;
+
+        const target = {
+            x: clamp(x, 0, ARENA.w),
+            y: clamp(y, 0, ARENA.h),
+        };
+        const strike: Strike = {
+            id: `${this.id}-s-${this.strikeSeq++}`,
+            x: target.x,
+            y: target.y,
+            explodeAtMs: nowMs + STRIKE_MARK_MS,
+            r: STRIKE_RADIUS,
+            damage: STRIKE_DAMAGE,
+            byId: playerId,
+        };
+        this.strikes.push(strike);
+        this.pendingStrikes.delete(playerId);
+        this.stats.recordAbility(playerId, "orbital_strike");
+        player.heldItem = null;
+        this.pendingEvents.push({
+            type: "strike_mark",
+            id: strike.id,
+            x: strike.x,
+            y: strike.y,
+            etaMs: STRIKE_MARK_MS,
+        });
+    }
+
+    private resolveStrike(strike: Strike, nowMs: number, events: GameEvent[]): void {
+        let kills = 0;
+        for (const target of this.players.values()) {
+            if (!target.alive) continue;
+            if (!this.canDamage(strike.byId, target)) continue;
+            if (
+                !this.pointInCircle(
+                    target.x,
+                    target.y,
+                    strike.x,
+                    strike.y,
+                    strike.r,
+                )
+            ) {
+                continue;
+            }
+            if (!target.isEcho && this.isShieldActive(target.id, nowMs)) {
+                this.handleShieldHit(target.id, strike.byId, events);
+                continue;
+            }
+            if (target.isEcho && target.ownerId === strike.byId) continue;
+            const nextHp = target.hp - strike.damage;
+            if (nextHp <= 0) {
+                this.killEntity(target, strike.byId, events);
+                if (!target.isEcho) kills += 1;
+            } else {
+                this.stats.recordDamage(strike.byId, target.id, strike.damage);
+                target.hp = nextHp;
+                events.push({ type: "hit", targetId: target.id, byRootId: strike.byId });
+            }
+        }
+        this.stats.recordStrike(strike.byId, kills);
+        events.push({
+            type: "strike_boom",
+            id: strike.id,
+            x: strike.x,
+            y: strike.y,
+            r: strike.r,
+        });
+    }
+
+    private pointInCircle(
+        x: number,
+        y: number,
+        cx: number,
+        cy: number,
+        r: number,
+    ): boolean {
+        const dx = x - cx;
+        const dy = y - cy;
+        return dx * dx + dy * dy <= r * r;
+    }
+
+    private rayToArenaEdge(
+        x: number,
+        y: number,
+        nx: number,
+        ny: number,
+    ): { x: number; y: number } {
+        const tVals: number[] = [];
+        if (nx !== 0) {
+            tVals.push((0 - x) / nx);
+            tVals.push((ARENA.w - x) / nx);
+        }
+        if (ny !== 0) {
+            tVals.push((0 - y) / ny);
+            tVals.push((ARENA.h - y) / ny);
+        }
+        const positives = tVals.filter((value) => value > 0);
+        const t = positives.length > 0 ? Math.min(...positives) : 0;
+        return { x: x + nx * t, y: y + ny * t };
+    }
+
+    private segmentIntersectsCircle(
+        ax: number,
+        ay: number,
+        bx: number,
+        by: number,
+        cx: number,
+        cy: number,
+        r: number,
+    ): boolean {
+        const abx = bx - ax;
+        const aby = by - ay;
+        const t =
+            ((cx - ax) * abx + (cy - ay) * aby) / (abx * abx + aby * aby || 1);
+        const clamped = Math.max(0, Math.min(1, t));
+        const px = ax + abx * clamped;
+        const py = ay + aby * clamped;
+        const dx = cx - px;
+        const dy = cy - py;
+        return dx * dx + dy * dy <= r * r;
+    }
+
+    private assignNewHost(): void {
+        const nextHost = Array.from(this.players.values()).find((player) => !player.isEcho);
+        if (!nextHost) {
+            this.match.hostId = "";
+            return;
+        }
+        this.match.hostId = nextHost.id;
+        this.notify(`New host: ${nextHost.name}`);
+    }
+
+    configureMatch(settings: MatchSettings): void {
+        this.record({ type: "configure", ...settings });
+        const clamped = Math.min(900, Math.max(60, Math.floor(settings.durationSec || 300)));
+        this.match.durationSec = clamped;
+        if (settings.winCondition) {
+            this.match.winCondition = settings.winCondition;
+        }
+        if (settings.scoreLimit !== undefined) {
+            this.match.scoreLimit = clamp(Math.floor(settings.scoreLimit || 0), 0, 500);
+        }
+        if (settings.leadMargin !== undefined) {
+            this.match.leadMargin = clamp(Math.floor(settings.leadMargin || 0), 0, 50);
+        }
+        if (settings.countdownSec !== undefined) {
+            this.match.countdownSec = clamp(
+                Math.floor(settings.countdownSec || COUNTDOWN_DEFAULT_SEC),
+                COUNTDOWN_MIN_SEC,
+                COUNTDOWN_MAX_SEC,
+            );
+        }
+        if (settings.autoStart !== undefined) {
+            this.match.autoStart = settings.autoStart || undefined;
+            this.checkAllReady();
+        }
+    }
+
+    setReady(playerId: string, ready: boolean): void {
+        this.record({ type: "ready", playerId, ready });
+        if (this.match.phase !== "lobby") return;
+        const player = this.players.get(playerId);
+        if (!player || player.isBot || player.isEcho) return;
+        player.ready = ready;
+        this.checkAllReady();
+    }
+
+    // with autoStart on, the countdown begins once every connected human is ready
+    private checkAllReady(): void {
+        if (!this.match.autoStart || this.match.phase !== "lobby") return;
+        const humans = Array.from(this.players.values()).filter(
+            (player) => !player.isBot && !player.isEcho,
+        );
+        if (humans.length === 0 || humans.some((player) => !player.ready)) return;
+        this.beginCountdown();
+    }
+
+    private clearReady(): void {
+        for (const player of [...this.players.values(), ...this.parked.values()]) {
+            if (player.ready !== undefined) player.ready = false;
+        }
+    }
+
+    startMatch(): void {
+        this.record({ type: "start" });
+        this.beginCountdown();
+    }
+
+    // everyone is placed at a spawn point and held there until startsAtMs
+    private beginCountdown(): void {
+        if (this.match.phase !== "lobby") return;
+        const nowMs = this.timeMs;
+        if (this.mode === "lms") {
+            // spawn inside the first circle so nobody moves when the round starts
+            this.placeCircle(nowMs);
+        }
+        this.resetForMatch(true);
+        this.clearMatchLeftovers();
+        this.stats.reset();
+        this.clearReady();
+        this.match.phase = "countdown";
+        this.match.startsAtMs = nowMs + this.match.countdownSec * 1000;
+        if (this.logCommands) this.startCommandLog();
+        this.notify(`Match starts in ${this.match.countdownSec}s`);
+    }
+
+    private beginPlay(nowMs: number): void {
+        this.match.phase = "playing";
+        this.match.startsAtMs = undefined;
+        this.match.startedAtMs = nowMs;
+        // a score-only match still needs a limit to end on
+        const untimed = this.match.winCondition === "score" && (this.match.scoreLimit ?? 0) > 0;
+        this.match.endsAtMs = untimed ? undefined : nowMs + this.match.durationSec * 1000;
+        this.match.overtime = undefined;
+        this.notify("Match started");
+        if (this.mode === "lms") {
+            this.startRound(1, false);
+        }
+        if (this.mode === "survival") {
+            // no time limit; the match runs until the team is overrun
+            this.match.endsAtMs = undefined;
+            this.match.wave = {
+                number: 0,
+                phase: "intermission",
+                nextAtMs: nowMs + WAVE_INTERMISSION_MS,
+                enemiesLeft: 0,
+                livesLeft: this.lives * Math.max(1, this.getHumanCount()),
+            };
+        }
+    }
+
+    restartMatch(): void {
+        this.record({ type: "restart" });
+        this.stopCommandLog();
+        this.match.phase = "lobby";
+        this.match.startsAtMs = undefined;
+        this.match.startedAtMs = undefined;
+        this.match.endsAtMs = undefined;
+        this.match.overtime = undefined;
+        this.resetForMatch(true);
+        this.clearReady();
+        this.notify("Returned to lobby");
+    }
+
+    // a match starts with fresh pickups and nothing pending from the lobby
+    private clearMatchLeftovers(): void {
+        this.scheduled = [];
+        this.pickups.clear();
+        this.spawnInitialPickups();
+        this.inputBuffer.clear();
+        this.lastShotAtMs.clear();
+        this.dashUntilMs.clear();
+        this.shieldUntilMs.clear();
+        this.novaHitCooldown.clear();
+    }
+
+    private resetForMatch(clearScores = false): void {
+        this.bullets.clear();
+        this.zones.clear();
+        this.strikes = [];
+        this.pendingStrikes.clear();
+        this.pendingEvents = [];
+        this.portals = [];
+        this.pendingPortals.clear();
+        this.portalCooldownUntilMs.clear();
+        this.positionHistory.clear();
+        this.botAi.clear();
+        for (const [echoId, meta] of this.echoes.entries()) {
+            this.echoes.delete(echoId);
+            this.players.delete(echoId);
+            this.lastShotAtMs.delete(echoId);
+        }
+        for (const flag of this.flags.values()) {
+            this.returnFlag(flag);
+        }
+        this.hill = null;
+        this.hillHeldMs = 0;
+        if (this.mode === "survival") {
+            this.dropBots(this.botIds.length);
+        }
+        for (const player of [...this.players.values(), ...this.parked.values()]) {
+            if (player.isEcho) continue;
+            const spawn = this.spawnPointFor(player.team);
+            player.x = spawn.x;
+            player.y = spawn.y;
+            player.maxHp = this.maxHp;
+            player.hp = this.maxHp;
+            player.alive = true;
+            player.heldItem = null;
+            player.shieldHp = 0;
+            if (player.lives !== undefined) {
+                player.lives = this.mode === "lms" ? this.lives : undefined;
+            }
+            this.shieldUntilMs.delete(player.id);
+            if (clearScores) {
+                player.kills = 0;
+                player.deaths = 0;
+                if (player.score !== undefined) player.score = 0;
+            }
+        }
+        if (clearScores && this.match.teams) {
+            this.match.teams = this.match.teams.map((team) => ({ id: team.id, score: 0 }));
+        }
+        if (clearScores && this.mode === "lms") {
+            this.match.round = undefined;
+            this.match.roundWinners = undefined;
+            this.match.circle = undefined;
+            this.circleFrom = null;
+        }
+        if (clearScores && this.mode === "survival") {
+            this.match.wave = undefined;
+        }
+    }
+}
+
+// re-runs a recorded match: after `ticks` steps the state is identical to the original's;
+// onStep can return a promise to pace the run
+export const replayCommandLog = async (
+    config: SimulationConfig,
+    checkpoint: SimulationCheckpoint,
+    log: LoggedCommand[],
+    ticks: number,
+    onStep?: (simulation: GameSimulation, result: StepResult) => void | Promise<void>,
+): Promise<GameSimulation> => {
+    const simulation = new GameSimulation(config);
+    simulation.restoreCheckpoint(checkpoint);
+    let next = 0;
+    for (let tick = simulation.getTick(); tick <= ticks; tick += 1) {
+        while (next < log.length && log[next].tick <= tick) {
+            simulation.applyCommand(log[next].command);
+            next += 1;
+        }
+        if (tick === ticks) break;
+        const result = simulation.step();
+        await onStep?.(simulation, result);
+    }
+    return simulation;
+};
+
+const teamLabel = (team: TeamId): string => team.charAt(0).toUpperCase() + team.slice(1);
+
+const clamp = (value: number, min: number, max: number): number =>
+    Math.max(min, Math.min(max, value));
+
+const distanceSq = (ax: number, ay: number, bx: number, by: number): number => {
+    const dx = ax - bx;
+    const dy = ay - by;
+    return dx * dx + dy * dy;
+};
+
+const isInsideCircle = (
+    x: number,
+    y: number,
+    cx: number,
+    cy: number,
+    r: number,
+): boolean => {
+    const dx = x - cx;
+    const dy = y - cy;
+    return dx * dx + dy * dy <= r * r;
+};
@@ -0,0 +1,60 @@
+import type { PlayerState } from "../../shared/protocol";
+import type { SnapshotEntities } from "../../shared/snapshotDelta";
+
+// decides which entities a viewer receives; viewer is null for observers that see everything
+export type VisibilityPolicy = {
+    filter: (viewer: PlayerState | null, entities: SnapshotEntities) => SnapshotEntities;
+};
+
+type RadiusVisibilityOptions = {
+    viewRadius: number;
+    margin: number;
+    isHidden?: (viewer: PlayerState, target: PlayerState) => boolean;
+};
+
+export const fullVisibility: VisibilityPolicy = {
+    filter: (_viewer, entities) => entities,
+};
+
+export const createRadiusVisibility = ({
+    viewRadius,
+    margin,
+    isHidden,
+}: RadiusVisibilityOptions): VisibilityPolicy => {
+    const range = viewRadius + margin;
+    return {
+        filter: (viewer, entities) => {
+            if (!viewer) return entities;
+            const inRange = (x: number, y: number, extra = 0) => {
+                const dx = x - viewer.x;
+                const dy = y - viewer.y;
+                const reach = range + extra;
+                return dx * dx + dy * dy <= reach * reach;
+            };
+            return {
+                players: entities.players.filter((player) => {
+                    if (player.id === viewer.id || player.ownerId === viewer.id) return true;
+                    if (isHidden?.(viewer, player)) return false;
+                    return inRange(player.x, player.y, player.r);
+                }),
+                bullets: entities.bullets.filter(
+                    (bullet) =>
+                        bullet.ownerRootId === viewer.id ||
+                        inRange(bullet.x, bullet.y, bullet.r ?? bullet.radius ?? 0),
+                ),
+                pickups: entities.pickups.filter((pickup) => inRange(pickup.x, pickup.y, pickup.r)),
+                zones: entities.zones.filter(
+                    (zone) => zone.kind === "control" || inRange(zone.x, zone.y, zone.r),
+                ),
+                portals: entities.portals.filter(
+                    (portal) =>
+                        portal.ownerId === viewer.id ||
+                        inRange(portal.a.x, portal.a.y, portal.a.r) ||
+                        (!!portal.b && inRange(portal.b.x, portal.b.y, portal.b.r)),
+                ),
+                // objectives are always on the map
+                flags: entities.flags,
+            };
+        },
+    };
+};
@@ -0,0 +1,78 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createBinaryCodec } from "../../shared/codec";
+import type { PlayerInput, SnapshotDelta } from "../../shared/protocol";
+import { WireRegistry, codecForFeatures } from "./wire";
+
+const delta: SnapshotDelta = {
+    id: 1,
+    baseId: null,
+    t: 1_700_000_000_000,
+    roomId: "ROOM01",
+    you: { playerId: "p1", ackSeq: 0 },
+    events: [],
+    match: {
+        phase: "lobby",
+        hostId: "p1",
+        durationSec: 300,
+        countdownSec: 5,
+        mode: "ffa",
+        winCondition: "either",
+    },
+    players: { upsert: [], remove: [] },
+    bullets: { upsert: [], remove: [] },
+    pickups: { upsert: [], remove: [] },
+    zones: { upsert: [], remove: [] },
+    portals: { upsert: [], remove: [] },
+    flags: { upsert: [], remove: [] },
+};
+
+const input: PlayerInput = {
+    seq: 3,
+    dt: 50,
+    keys: { up: false, down: true, left: false, right: false },
+    aim: { x: 10, y: 20 },
+    shoot: false,
+    useItem: false,
+};
+
+describe("WireRegistry", () => {
+    it("falls back to JSON for recipients without the binary codec", () => {
+        const wire = new WireRegistry();
+        wire.register("json-client", "json");
+        assert.equal(wire.encodeState("json-client", delta), delta);
+        assert.equal(wire.encodeState("unknown", delta), delta);
+        assert.equal(wire.decodeInput("json-client", input), input);
+    });
+
+    it("encodes for binary recipients with their own string table", () => {
+        const wire = new WireRegistry();
+        wire.register("binary-client", "binary");
+        const client = createBinaryCodec();
+        const encoded = wire.encodeState("binary-client", delta);
+        assert.ok(encoded instanceof Uint8Array);
+        assert.deepEqual(client.decodeState(encoded), delta);
+        assert.deepEqual(wire.decodeInput("binary-client", client.encodeInput(input)), input);
+    });
+
+    it("refuses binary input from a JSON recipient", () => {
+        const wire = new WireRegistry();
+        wire.register("json-client", "json");
+        const bytes = createBinaryCodec().encodeInput(input);
+        assert.throws(() => wire.decodeInput("json-client", bytes));
+    });
+
+    it("drops the codec when a recipient goes back to JSON", () => {
+        const wire = new WireRegistry();
+        wire.register("p1", "binary");
+        wire.register("p1", "json");
+        assert.equal(wire.encodeState("p1", delta), delta);
+    });
+});
+
+describe("codecForFeatures", () => {
+    it("picks binary only when negotiated", () => {
+        assert.equal(codecForFeatures(["binary_codec", "delta_snapshots"]), "binary");
+        assert.equal(codecForFeatures(["delta_snapshots"]), "json");
+    });
+});
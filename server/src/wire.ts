@@ -0,0 +1,41 @@
+import type {
+    BinaryPayload,
+    PlayerInput,
+    ProtocolFeature,
+    SnapshotDelta,
+    WireCodec,
+} from "../../shared/protocol";
+import { createBinaryCodec, isBinaryPayload, type BinaryCodec } from "../../shared/codec";
+
+// keyed by the id rooms emit to, so a room never needs to know how a player is connected
+export class WireRegistry {
+    private codecs = new Map<string, BinaryCodec>();
+
+    register(recipientId: string, codec: WireCodec): void {
+        if (codec === "binary") {
+            this.codecs.set(recipientId, createBinaryCodec());
+        } else {
+            this.codecs.delete(recipientId);
+        }
+    }
+
+    unregister(recipientId: string): void {
+        this.codecs.delete(recipientId);
+    }
+
+    encodeState(recipientId: string, delta: SnapshotDelta): SnapshotDelta | BinaryPayload {
+        const codec = this.codecs.get(recipientId);
+        return codec ? codec.encodeState(delta) : delta;
+    }
+
+    // throws on a malformed binary packet
+    decodeInput(recipientId: string, payload: PlayerInput | BinaryPayload): PlayerInput {
+        if (!isBinaryPayload(payload)) return payload;
+        const codec = this.codecs.get(recipientId);
+        if (!codec) throw new Error("Binary input without a negotiated codec");
+        return codec.decodeInput(payload);
+    }
+}
+
+export const codecForFeatures = (features: ProtocolFeature[]): WireCodec =>
+    features.includes("binary_codec") ? "binary" : "json";
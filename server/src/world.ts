@@ -1,4 +1,4 @@
-import type { BulletState, GameEvent, PlayerState } from "../../shared/protocol";
+import type { BulletState, GameEvent, PlayerState, Vec2 } from "../../shared/protocol";
 
 const BULLET_RADIUS = 3;
 const OUT_OF_BOUNDS_MARGIN = 12;
@@ -13,11 +13,16 @@ type StepParams = {
     arena: { w: number; h: number };
     nowMs: number;
     onDeath: (playerId: string) => void;
+    // called once the damage has landed, after onDeath when the hit was lethal
+    onHit?: (bullet: BulletState, player: PlayerState, damage: number, lethal: boolean) => void;
     bulletSpeedMultiplier?: (x: number, y: number) => number;
     isInvulnerable?: (playerId: string) => boolean;
+    // false lets the bullet pass through, e.g. teammates with friendly fire off
+    canHit?: (bullet: BulletState, player: PlayerState) => boolean;
     allowDamage?: boolean;
     shieldHit?: (playerId: string, byRootId: string) => boolean;
     shouldIgnoreHit?: (bullet: BulletState, playerId: string, nowMs: number) => boolean;
+    targetPosition?: (bullet: BulletState, player: PlayerState) => Vec2;
 };
 
 export const stepBullets = ({
@@ -28,11 +33,14 @@ export const stepBullets = ({
     arena,
     nowMs,
     onDeath,
+    onHit,
     bulletSpeedMultiplier,
     isInvulnerable,
+    canHit,
     allowDamage = true,
     shieldHit,
     shouldIgnoreHit,
+    targetPosition,
 }: StepParams): void => {
     const removeIds = new Set<string>();
 
@@ -128,6 +136,7 @@ export const stepBullets = ({
             const speed = Math.max(1, Math.hypot(bullet.vx, bullet.vy));
             spawned.push({
                 id: `${bullet.id}-r-${nowMs}`,
+                kind: "reflected",
                 ownerId: slash.ownerId,
                 ownerRootId: slash.ownerRootId,
                 x: slash.x + sdx * (slashRadius + 4),
@@ -146,6 +155,7 @@ export const stepBullets = ({
             if (typeof bullet.bouncesLeft !== "number" && player.id === bullet.ownerRootId) {
                 continue;
             }
+            if (canHit && !canHit(bullet, player)) continue;
             if (isInvulnerable?.(player.id)) continue;
             if (shouldIgnoreHit?.(bullet, player.id, nowMs)) {
                 removeIds.add(bullet.id);
@@ -158,8 +168,9 @@ export const stepBullets = ({
                 }
                 continue;
             }
-            const dx = bullet.x - player.x;
-            const dy = bullet.y - player.y;
+            const target = targetPosition?.(bullet, player) ?? player;
+            const dx = bullet.x - target.x;
+            const dy = bullet.y - target.y;
             const bulletRadius = bullet.r ?? bullet.radius ?? BULLET_RADIUS;
             const hitRadius = player.r + bulletRadius;
             if (dx * dx + dy * dy <= hitRadius * hitRadius) {
@@ -173,12 +184,13 @@ export const stepBullets = ({
                 if (!bullet.isSlash && typeof bullet.bouncesLeft !== "number") {
                     removeIds.add(bullet.id);
                 }
-                const damage = bullet.damage ?? 1;
-                player.hp = Math.max(0, player.hp - damage);
+                const damage = Math.min(player.hp, bullet.damage ?? 1);
+                player.hp -= damage;
                 bullet.lastHitTargetId = player.id;
                 bullet.lastHitAtMs = nowMs;
                 events.push({ type: "hit", targetId: player.id, byRootId: bullet.ownerRootId });
-                if (player.hp === 0 && player.alive) {
+                const lethal = player.hp === 0 && player.alive;
+                if (lethal) {
                     player.alive = false;
                     player.deaths += 1;
                     const killer = players.get(bullet.ownerRootId);
@@ -192,6 +204,7 @@ export const stepBullets = ({
                     });
                     onDeath(player.id);
                 }
+                onHit?.(bullet, player, damage, lethal);
                 if (!bullet.isSlash && typeof bullet.bouncesLeft !== "number") {
                     break;
                 }
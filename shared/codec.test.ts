@@ -0,0 +1,308 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createBinaryCodec, isBinaryPayload } from "./codec";
+import type {
+    BulletState,
+    FlagState,
+    GameEvent,
+    MatchState,
+    PickupState,
+    PlayerInput,
+    PlayerState,
+    PortalState,
+    SnapshotDelta,
+    ZoneState,
+} from "./protocol";
+
+const T = 1_700_000_000_000;
+
+const match = (overrides: Partial<MatchState> = {}): MatchState => ({
+    phase: "playing",
+    hostId: "p1",
+    startedAtMs: T - 5000,
+    endsAtMs: T + 295_000,
+    durationSec: 300,
+    countdownSec: 5,
+    mode: "ffa",
+    winCondition: "either",
+    scoreLimit: 30,
+    ...overrides,
+});
+
+const delta = (overrides: Partial<SnapshotDelta> = {}): SnapshotDelta => ({
+    id: 7,
+    baseId: null,
+    t: T,
+    roomId: "ROOM01",
+    you: { playerId: "p1", ackSeq: 42 },
+    events: [],
+    match: match(),
+    players: { upsert: [], remove: [] },
+    bullets: { upsert: [], remove: [] },
+    pickups: { upsert: [], remove: [] },
+    zones: { upsert: [], remove: [] },
+    portals: { upsert: [], remove: [] },
+    flags: { upsert: [], remove: [] },
+    ...overrides,
+});
+
+// values are picked on the codec's quantization grid so they survive the trip exactly
+const player: PlayerState = {
+    id: "p1",
+    name: "Alice",
+    x: 120.5,
+    y: 300.1,
+    r: 18,
+    hp: 3.25,
+    maxHp: 5,
+    alive: true,
+    kills: 4,
+    deaths: 2,
+    isEcho: false,
+    isBot: false,
+    heldItem: "phase_dash",
+    shieldHp: 1.5,
+    team: "blue",
+    score: 12,
+    lives: 2,
+    ready: true,
+};
+
+const bot: PlayerState = {
+    id: "bot-1",
+    name: "Rusher",
+    x: 10,
+    y: 20,
+    r: 18,
+    hp: 1,
+    maxHp: 1,
+    alive: false,
+    kills: 0,
+    deaths: 1,
+    isEcho: false,
+    isBot: true,
+    heldItem: null,
+    archetype: "rusher",
+};
+
+const echo: PlayerState = {
+    ...player,
+    id: "echo-1",
+    isEcho: true,
+    ownerId: "p1",
+    heldItem: undefined,
+    ready: undefined,
+};
+
+const bullet: BulletState = {
+    id: "b1",
+    kind: "slash",
+    ownerId: "echo-1",
+    ownerRootId: "p1",
+    x: 50.2,
+    y: 60.3,
+    vx: -420.5,
+    vy: 12.1,
+    ttlMs: 900,
+    burstId: "burst-1",
+    portalJumpsLeft: 1,
+    bulletPortalCooldownUntilMs: T + 120,
+    bouncesLeft: -1,
+    damage: 2.5,
+    radius: 6,
+    r: 4,
+    lastHitAtMs: T - 30,
+    lastHitTargetId: "p2",
+    isSlash: true,
+    reflectsLeft: 2,
+    portalCooldownUntilMs: T + 80,
+};
+
+const pickup: PickupState = { id: "k1", type: "orbital_strike", x: 600, y: 400, r: 14 };
+
+const timeBubble: ZoneState = {
+    id: "z1",
+    kind: "time_bubble",
+    x: 300,
+    y: 200,
+    r: 140,
+    expiresAtMs: T + 10_000,
+    ownerId: "p1",
+};
+
+const hill: ZoneState = {
+    id: "hill",
+    kind: "control",
+    x: 600,
+    y: 400,
+    r: 90,
+    expiresAtMs: T + 45_000,
+    ownerId: "red",
+    capturingId: "blue",
+    progress: 0.35,
+    contested: true,
+};
+
+const portal: PortalState = {
+    id: "portal-1",
+    ownerId: "p1",
+    a: { x: 100, y: 100, r: 30 },
+    b: { x: 900, y: 700, r: 30 },
+    createdAtMs: T - 2000,
+    expiresAtMs: T + 8000,
+};
+
+const flag: FlagState = {
+    id: "red",
+    x: 400.5,
+    y: 300,
+    baseX: 80,
+    baseY: 400,
+    carrierId: "p2",
+    returnsAtMs: T + 15_000,
+};
+
+const EVENTS: GameEvent[] = [
+    { type: "hit", targetId: "p2", byRootId: "p1" },
+    { type: "death", id: "p2", byRootId: "p1" },
+    { type: "death", id: "p3" },
+    { type: "spawn_echo", ownerId: "p1", echoId: "echo-1" },
+    { type: "beam_fire", byId: "p1", from: { x: 10, y: 20 }, to: { x: 1190, y: 780.5 } },
+    { type: "shield_break", id: "p2" },
+    { type: "shield_hit", id: "p2", hpLeft: 0.5 },
+    { type: "nova_fire", byId: "p1" },
+    { type: "strike_mark", id: "s1", x: 500, y: 400, etaMs: 1200 },
+    { type: "strike_boom", id: "s1", x: 500, y: 400, r: 120 },
+];
+
+const roundTrip = (value: SnapshotDelta): SnapshotDelta => {
+    const codec = createBinaryCodec();
+    return codec.decodeState(codec.encodeState(value));
+};
+
+describe("binary codec", () => {
+    it("round-trips every game event variant", () => {
+        const value = delta({ events: EVENTS });
+        assert.deepEqual(roundTrip(value), value);
+    });
+
+    it("round-trips every entity type", () => {
+        const value = delta({
+            baseId: 6,
+            players: { upsert: [player, bot, echo], remove: ["p9"] },
+            bullets: { upsert: [bullet], remove: ["b0"] },
+            pickups: { upsert: [pickup], remove: [] },
+            zones: { upsert: [timeBubble, hill], remove: ["z0"] },
+            portals: { upsert: [portal, { ...portal, id: "portal-2", b: undefined }], remove: [] },
+            flags: { upsert: [flag, { id: "blue", x: 1, y: 2, baseX: 1, baseY: 2 }], remove: [] },
+        });
+        const decoded = roundTrip(value);
+        // absent optionals come back missing rather than as undefined
+        assert.deepEqual(decoded, JSON.parse(JSON.stringify(value)));
+    });
+
+    it("round-trips match state for every mode", () => {
+        const matches: MatchState[] = [
+            match({ phase: "lobby", autoStart: true, startedAtMs: undefined, endsAtMs: undefined }),
+            match({ phase: "countdown", startsAtMs: T + 3000 }),
+            match({
+                mode: "tdm",
+                teams: [
+                    { id: "red", score: 3 },
+                    { id: "blue", score: 5 },
+                ],
+                friendlyFire: true,
+                leadMargin: 2,
+                overtime: true,
+            }),
+            match({
+                mode: "lms",
+                winCondition: "time",
+                round: 2,
+                roundCount: 3,
+                roundWinners: ["p1", ""],
+                circle: {
+                    x: 600,
+                    y: 400,
+                    r: 300,
+                    next: { x: 620, y: 380, r: 200, startsAtMs: T + 1000, endsAtMs: T + 11_000 },
+                },
+            }),
+            match({
+                mode: "survival",
+                phase: "ended",
+                wave: {
+                    number: 4,
+                    phase: "intermission",
+                    nextAtMs: T + 8000,
+                    enemiesLeft: 0,
+                    livesLeft: 3,
+                },
+            }),
+        ];
+        for (const value of matches) {
+            const decoded = roundTrip(delta({ match: value }));
+            assert.deepEqual(decoded.match, JSON.parse(JSON.stringify(value)));
+        }
+    });
+
+    it("reuses the string table across frames", () => {
+        const codec = createBinaryCodec();
+        const frame = delta({ players: { upsert: [player], remove: [] } });
+        const first = codec.encodeState(frame);
+        const second = codec.encodeState({ ...frame, id: 8 });
+        // the repeat only carries table indexes for the room, player id and name
+        assert.ok(second.length < first.length - "ROOM01Alicep1".length);
+        assert.deepEqual(codec.decodeState(first), frame);
+        assert.deepEqual(codec.decodeState(second), { ...frame, id: 8 });
+    });
+
+    it("starts a fresh table after a failed encode", () => {
+        const codec = createBinaryCodec();
+        const bad = delta({ events: [{ type: "nope" } as unknown as GameEvent] });
+        assert.throws(() => codec.encodeState(bad));
+        const good = delta({ players: { upsert: [player], remove: [] } });
+        assert.deepEqual(codec.decodeState(codec.encodeState(good)), good);
+    });
+
+    it("rejects truncated and padded payloads", () => {
+        const codec = createBinaryCodec();
+        const bytes = createBinaryCodec().encodeState(delta({ events: EVENTS }));
+        assert.throws(() => codec.decodeState(bytes.subarray(0, bytes.length - 1)));
+        const padded = new Uint8Array(bytes.length + 1);
+        padded.set(bytes);
+        assert.throws(() => createBinaryCodec().decodeState(padded));
+    });
+
+    it("round-trips player input", () => {
+        const codec = createBinaryCodec();
+        const input: PlayerInput = {
+            seq: 1234,
+            dt: 50,
+            keys: { up: true, down: false, left: true, right: false },
+            aim: { x: 640.5, y: 380.2 },
+            shoot: true,
+            useItem: false,
+            viewT: T - 120.25,
+        };
+        assert.deepEqual(codec.decodeInput(codec.encodeInput(input)), input);
+        const { viewT: _viewT, ...withoutViewT } = input;
+        assert.deepEqual(codec.decodeInput(codec.encodeInput(withoutViewT)), withoutViewT);
+    });
+
+    it("decodes from an ArrayBuffer as well as a Uint8Array", () => {
+        const codec = createBinaryCodec();
+        const bytes = createBinaryCodec().encodeState(delta());
+        assert.deepEqual(codec.decodeState(Uint8Array.from(bytes).buffer), delta());
+    });
+});
+
+describe("isBinaryPayload", () => {
+    it("only accepts byte buffers, so JSON payloads take the fallback path", () => {
+        assert.equal(isBinaryPayload(new Uint8Array(2)), true);
+        assert.equal(isBinaryPayload(new ArrayBuffer(2)), true);
+        assert.equal(isBinaryPayload(delta()), false);
+        assert.equal(isBinaryPayload(null), false);
+        assert.equal(isBinaryPayload("bytes"), false);
+    });
+});
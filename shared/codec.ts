@@ -0,0 +1,668 @@
+import type {
+    AbilityType,
+    BinaryPayload,
+    GameEvent,
+    PlayerInput,
+    SnapshotDelta,
+} from "./protocol";
+import { BOT_ARCHETYPES, BULLET_KINDS, GAME_MODES, TEAM_IDS } from "./protocol";
+
+// Binary wire format for game:state and player:input.
+//
+// Every record starts with a bitfield holding one presence bit per optional field and
+// one value bit per boolean, followed by the remaining present fields in schema order.
+// Numbers are varints (zigzag for signed), positions are quantized to 0.1px, and epoch
+// times are written relative to the message time. Repeated strings such as entity ids
+// go through a per-connection string table: the first occurrence carries the text,
+// later ones only its index. The table is reset, flagged in the message header, once
+// it grows past MAX_TABLE_SIZE.
+
+type FieldKind =
+    | "bool"
+    | "uint"
+    | "int"
+    | "f64"
+    | "string"
+    | "interned"
+    | "time"
+    | "timeBase"
+    | { fixed: number }
+    | { enum: readonly (string | null)[] }
+    | { object: Schema }
+    | { array: FieldKind }
+    | { union: string; variants: Record<string, Schema> };
+
+type Field = {
+    key: string;
+    kind: FieldKind;
+    optional?: boolean;
+    nullable?: boolean; // absent on the wire, null once decoded
+};
+
+type Schema = readonly Field[];
+
+type Context = {
+    table: StringTable;
+    timeBase: number;
+};
+
+type AnyRecord = Record<string, unknown>;
+
+const MAX_TABLE_SIZE = 4096;
+const HEADER_TABLE_RESET = 1;
+
+const POSITION: FieldKind = { fixed: 10 };
+const AMOUNT: FieldKind = { fixed: 100 };
+
+const ABILITY_TYPES: readonly AbilityType[] = [
+    "echo",
+    "time_bubble",
+    "phase_dash",
+    "shield",
+    "rift_sniper",
+    "pulse_nova",
+    "orbital_strike",
+    "linked_portals",
+    "annihilation_bouncer",
+    "void_slice",
+];
+
+const VEC2_SCHEMA: Schema = [
+    { key: "x", kind: POSITION },
+    { key: "y", kind: POSITION },
+];
+
+const CIRCLE_SCHEMA: Schema = [
+    { key: "x", kind: POSITION },
+    { key: "y", kind: POSITION },
+    { key: "r", kind: POSITION },
+];
+
+const KEYS_SCHEMA: Schema = [
+    { key: "up", kind: "bool" },
+    { key: "down", kind: "bool" },
+    { key: "left", kind: "bool" },
+    { key: "right", kind: "bool" },
+];
+
+const PLAYER_SCHEMA: Schema = [
+    { key: "id", kind: "interned" },
+    { key: "name", kind: "interned" },
+    { key: "x", kind: POSITION },
+    { key: "y", kind: POSITION },
+    { key: "r", kind: POSITION },
+    { key: "hp", kind: AMOUNT },
+    { key: "maxHp", kind: AMOUNT },
+    { key: "alive", kind: "bool" },
+    { key: "kills", kind: "uint" },
+    { key: "deaths", kind: "uint" },
+    { key: "isEcho", kind: "bool" },
+    { key: "ownerId", kind: "interned", optional: true },
+    { key: "isBot", kind: "bool", optional: true },
+    { key: "heldItem", kind: { enum: [null, ...ABILITY_TYPES] }, optional: true },
+    { key: "shieldHp", kind: AMOUNT, optional: true },
+    { key: "team", kind: { enum: TEAM_IDS }, optional: true },
+    { key: "score", kind: "uint", optional: true },
+    { key: "lives", kind: "uint", optional: true },
+    { key: "archetype", kind: { enum: BOT_ARCHETYPES }, optional: true },
+    { key: "ready", kind: "bool", optional: true },
+];
+
+const BULLET_SCHEMA: Schema = [
+    { key: "id", kind: "interned" },
+    { key: "kind", kind: { enum: BULLET_KINDS } },
+    { key: "ownerId", kind: "interned" },
+    { key: "ownerRootId", kind: "interned" },
+    { key: "x", kind: POSITION },
+    { key: "y", kind: POSITION },
+    { key: "vx", kind: POSITION },
+    { key: "vy", kind: POSITION },
+    { key: "ttlMs", kind: POSITION },
+    { key: "burstId", kind: "interned", optional: true },
+    { key: "portalJumpsLeft", kind: "int", optional: true },
+    { key: "bulletPortalCooldownUntilMs", kind: "time", optional: true },
+    { key: "bouncesLeft", kind: "int", optional: true },
+    { key: "damage", kind: AMOUNT, optional: true },
+    { key: "radius", kind: POSITION, optional: true },
+    { key: "r", kind: POSITION, optional: true },
+    { key: "lastHitAtMs", kind: "time", optional: true },
+    { key: "lastHitTargetId", kind: "interned", optional: true },
+    { key: "isSlash", kind: "bool", optional: true },
+    { key: "reflectsLeft", kind: "int", optional: true },
+    { key: "portalCooldownUntilMs", kind: "time", optional: true },
+];
+
+const PICKUP_SCHEMA: Schema = [
+    { key: "id", kind: "interned" },
+    { key: "type", kind: { enum: ABILITY_TYPES } },
+    { key: "x", kind: POSITION },
+    { key: "y", kind: POSITION },
+    { key: "r", kind: POSITION },
+];
+
+const ZONE_SCHEMA: Schema = [
+    { key: "id", kind: "interned" },
+    { key: "kind", kind: { enum: ["time_bubble", "control"] } },
+    { key: "x", kind: POSITION },
+    { key: "y", kind: POSITION },
+    { key: "r", kind: POSITION },
+    { key: "expiresAtMs", kind: "time" },
+    { key: "ownerId", kind: "interned", optional: true },
+    { key: "capturingId", kind: "interned", optional: true },
+    { key: "progress", kind: AMOUNT, optional: true },
+    { key: "contested", kind: "bool", optional: true },
+];
+
+const PORTAL_SCHEMA: Schema = [
+    { key: "id", kind: "interned" },
+    { key: "ownerId", kind: "interned" },
+    { key: "a", kind: { object: CIRCLE_SCHEMA } },
+    { key: "b", kind: { object: CIRCLE_SCHEMA }, optional: true },
+    { key: "createdAtMs", kind: "time" },
+    { key: "expiresAtMs", kind: "time", optional: true },
+];
+
+const FLAG_SCHEMA: Schema = [
+    { key: "id", kind: { enum: TEAM_IDS } },
+    { key: "x", kind: POSITION },
+    { key: "y", kind: POSITION },
+    { key: "baseX", kind: POSITION },
+    { key: "baseY", kind: POSITION },
+    { key: "carrierId", kind: "interned", optional: true },
+    { key: "returnsAtMs", kind: "time", optional: true },
+];
+
+const EVENT_VARIANTS: Record<GameEvent["type"], Schema> = {
+    hit: [
+        { key: "targetId", kind: "interned" },
+        { key: "byRootId", kind: "interned" },
+    ],
+    death: [
+        { key: "id", kind: "interned" },
+        { key: "byRootId", kind: "interned", optional: true },
+    ],
+    spawn_echo: [
+        { key: "ownerId", kind: "interned" },
+        { key: "echoId", kind: "interned" },
+    ],
+    beam_fire: [
+        { key: "byId", kind: "interned" },
+        { key: "from", kind: { object: VEC2_SCHEMA } },
+        { key: "to", kind: { object: VEC2_SCHEMA } },
+    ],
+    shield_break: [{ key: "id", kind: "interned" }],
+    shield_hit: [
+        { key: "id", kind: "interned" },
+        { key: "hpLeft", kind: AMOUNT },
+    ],
+    nova_fire: [{ key: "byId", kind: "interned" }],
+    strike_mark: [
+        { key: "id", kind: "interned" },
+        { key: "x", kind: POSITION },
+        { key: "y", kind: POSITION },
+        { key: "etaMs", kind: "uint" },
+    ],
+    strike_boom: [
+        { key: "id", kind: "interned" },
+        { key: "x", kind: POSITION },
+        { key: "y", kind: POSITION },
+        { key: "r", kind: POSITION },
+    ],
+};
+
+const SAFE_CIRCLE_SCHEMA: Schema = [
+    { key: "x", kind: POSITION },
+    { key: "y", kind: POSITION },
+    { key: "r", kind: POSITION },
+    {
+        key: "next",
+        kind: {
+            object: [
+                { key: "x", kind: POSITION },
+                { key: "y", kind: POSITION },
+                { key: "r", kind: POSITION },
+                { key: "startsAtMs", kind: "time" },
+                { key: "endsAtMs", kind: "time" },
+            ],
+        },
+        optional: true,
+    },
+];
+
+const WAVE_SCHEMA: Schema = [
+    { key: "number", kind: "uint" },
+    { key: "phase", kind: { enum: ["intermission", "fighting"] } },
+    { key: "nextAtMs", kind: "time" },
+    { key: "enemiesLeft", kind: "uint" },
+    { key: "livesLeft", kind: "uint" },
+];
+
+const MATCH_SCHEMA: Schema = [
+    { key: "phase", kind: { enum: ["lobby", "countdown", "playing", "ended"] } },
+    { key: "hostId", kind: "interned" },
+    { key: "startsAtMs", kind: "time", optional: true },
+    { key: "startedAtMs", kind: "time", optional: true },
+    { key: "endsAtMs", kind: "time", optional: true },
+    { key: "durationSec", kind: "uint" },
+    { key: "countdownSec", kind: "uint" },
+    { key: "autoStart", kind: "bool", optional: true },
+    { key: "mode", kind: { enum: GAME_MODES } },
+    {
+        key: "teams",
+        kind: {
+            array: {
+                object: [
+                    { key: "id", kind: { enum: TEAM_IDS } },
+                    { key: "score", kind: "uint" },
+                ],
+            },
+        },
+        optional: true,
+    },
+    { key: "friendlyFire", kind: "bool", optional: true },
+    { key: "winCondition", kind: { enum: ["time", "score", "either"] } },
+    { key: "scoreLimit", kind: "uint", optional: true },
+    { key: "leadMargin", kind: "uint", optional: true },
+    { key: "overtime", kind: "bool", optional: true },
+    { key: "round", kind: "uint", optional: true },
+    { key: "roundCount", kind: "uint", optional: true },
+    { key: "roundWinners", kind: { array: "interned" }, optional: true },
+    { key: "circle", kind: { object: SAFE_CIRCLE_SCHEMA }, optional: true },
+    { key: "wave", kind: { object: WAVE_SCHEMA }, optional: true },
+];
+
+const entityDelta = (schema: Schema): FieldKind => ({
+    object: [
+        { key: "upsert", kind: { array: { object: schema } } },
+        { key: "remove", kind: { array: "interned" } },
+    ],
+});
+
+const SNAPSHOT_DELTA_SCHEMA: Schema = [
+    { key: "t", kind: "timeBase" },
+    { key: "id", kind: "uint" },
+    { key: "baseId", kind: "uint", nullable: true },
+    { key: "roomId", kind: "interned" },
+    {
+        key: "you",
+        kind: {
+            object: [
+                { key: "playerId", kind: "interned" },
+                { key: "ackSeq", kind: "uint" },
+            ],
+        },
+    },
+    { key: "events", kind: { array: { union: "type", variants: EVENT_VARIANTS } } },
+    { key: "match", kind: { object: MATCH_SCHEMA } },
+    { key: "players", kind: entityDelta(PLAYER_SCHEMA) },
+    { key: "bullets", kind: entityDelta(BULLET_SCHEMA) },
+    { key: "pickups", kind: entityDelta(PICKUP_SCHEMA) },
+    { key: "zones", kind: entityDelta(ZONE_SCHEMA) },
+    { key: "portals", kind: entityDelta(PORTAL_SCHEMA) },
+    { key: "flags", kind: entityDelta(FLAG_SCHEMA) },
+];
+
+const PLAYER_INPUT_SCHEMA: Schema = [
+    { key: "seq", kind: "uint" },
+    { key: "dt", kind: "int" },
+    { key: "keys", kind: { object: KEYS_SCHEMA } },
+    { key: "aim", kind: { object: VEC2_SCHEMA } },
+    { key: "shoot", kind: "bool" },
+    { key: "useItem", kind: "bool" },
+    { key: "viewT", kind: "f64", optional: true },
+];
+
+class StringTable {
+    private indexByValue = new Map<string, number>();
+    private values: string[] = [];
+
+    get size(): number {
+        return this.values.length;
+    }
+
+    indexOf(value: string): number | undefined {
+        return this.indexByValue.get(value);
+    }
+
+    at(index: number): string | undefined {
+        return this.values[index];
+    }
+
+    add(value: string): void {
+        this.indexByValue.set(value, this.values.length);
+        this.values.push(value);
+    }
+
+    reset(): void {
+        this.indexByValue.clear();
+        this.values = [];
+    }
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ByteWriter {
+    private buffer = new Uint8Array(256);
+    private length = 0;
+
+    private ensure(extra: number): void {
+        if (this.length + extra <= this.buffer.length) return;
+        let size = this.buffer.length * 2;
+        while (size < this.length + extra) size *= 2;
+        const next = new Uint8Array(size);
+        next.set(this.buffer.subarray(0, this.length));
+        this.buffer = next;
+    }
+
+    writeByte(value: number): void {
+        this.ensure(1);
+        this.buffer[this.length++] = value & 0xff;
+    }
+
+    writeVarUint(value: number): void {
+        let remaining = Math.max(0, Math.floor(value));
+        while (remaining >= 0x80) {
+            this.writeByte((remaining % 0x80) | 0x80);
+            remaining = Math.floor(remaining / 0x80);
+        }
+        this.writeByte(remaining);
+    }
+
+    writeVarInt(value: number): void {
+        const rounded = Math.round(value);
+        this.writeVarUint(rounded >= 0 ? rounded * 2 : -rounded * 2 - 1);
+    }
+
+    writeF64(value: number): void {
+        this.ensure(8);
+        new DataView(this.buffer.buffer).setFloat64(this.length, value);
+        this.length += 8;
+    }
+
+    writeString(value: string): void {
+        const bytes = textEncoder.encode(value);
+        this.writeVarUint(bytes.length);
+        this.ensure(bytes.length);
+        this.buffer.set(bytes, this.length);
+        this.length += bytes.length;
+    }
+
+    finish(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+}
+
+class ByteReader {
+    private view: DataView;
+    private bytes: Uint8Array;
+    private offset = 0;
+
+    constructor(bytes: Uint8Array) {
+        this.bytes = bytes;
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    private require(count: number): void {
+        if (this.offset + count > this.bytes.length) {
+            throw new Error("Unexpected end of binary payload");
+        }
+    }
+
+    readByte(): number {
+        this.require(1);
+        return this.bytes[this.offset++];
+    }
+
+    readVarUint(): number {
+        let result = 0;
+        let multiplier = 1;
+        for (let i = 0; i < 8; i += 1) {
+            const byte = this.readByte();
+            result += (byte & 0x7f) * multiplier;
+            if ((byte & 0x80) === 0) return result;
+            multiplier *= 0x80;
+        }
+        throw new Error("Varint too long");
+    }
+
+    readVarInt(): number {
+        const value = this.readVarUint();
+        return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+    }
+
+    readF64(): number {
+        this.require(8);
+        const value = this.view.getFloat64(this.offset);
+        this.offset += 8;
+        return value;
+    }
+
+    readString(): string {
+        const length = this.readVarUint();
+        this.require(length);
+        const value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+        this.offset += length;
+        return value;
+    }
+
+    assertDone(): void {
+        if (this.offset !== this.bytes.length) {
+            throw new Error("Trailing bytes in binary payload");
+        }
+    }
+}
+
+const isBitField = (field: Field): boolean =>
+    !!field.optional || !!field.nullable;
+
+const bitCount = (schema: Schema): number =>
+    schema.reduce(
+        (count, field) => count + (isBitField(field) ? 1 : 0) + (field.kind === "bool" ? 1 : 0),
+        0,
+    );
+
+const isAbsent = (field: Field, value: unknown): boolean =>
+    (field.optional && value === undefined) || (field.nullable && value === null) || false;
+
+const writeValue = (
+    writer: ByteWriter,
+    kind: FieldKind,
+    value: unknown,
+    ctx: Context,
+): void => {
+    if (kind === "bool") return;
+    if (kind === "uint") {
+        writer.writeVarUint(value as number);
+    } else if (kind === "int") {
+        writer.writeVarInt(value as number);
+    } else if (kind === "f64") {
+        writer.writeF64(value as number);
+    } else if (kind === "string") {
+        writer.writeString(value as string);
+    } else if (kind === "interned") {
+        const text = value as string;
+        const index = ctx.table.indexOf(text);
+        if (index !== undefined) {
+            writer.writeVarUint(index * 2);
+        } else {
+            writer.writeVarUint(ctx.table.size * 2 + 1);
+            writer.writeString(text);
+            ctx.table.add(text);
+        }
+    } else if (kind === "time") {
+        writer.writeVarInt((value as number) - ctx.timeBase);
+    } else if (kind === "timeBase") {
+        ctx.timeBase = value as number;
+        writer.writeF64(ctx.timeBase);
+    } else if ("fixed" in kind) {
+        writer.writeVarInt((value as number) * kind.fixed);
+    } else if ("enum" in kind) {
+        const index = kind.enum.indexOf(value as string | null);
+        if (index < 0) throw new Error(`Unknown enum value ${String(value)}`);
+        writer.writeVarUint(index);
+    } else if ("object" in kind) {
+        writeRecord(writer, kind.object, value as AnyRecord, ctx);
+    } else if ("array" in kind) {
+        const items = value as unknown[];
+        writer.writeVarUint(items.length);
+        for (const item of items) {
+            writeValue(writer, kind.array, item, ctx);
+        }
+    } else {
+        const record = value as AnyRecord;
+        const tags = Object.keys(kind.variants);
+        const tag = record[kind.union] as string;
+        const index = tags.indexOf(tag);
+        if (index < 0) throw new Error(`Unknown variant ${tag}`);
+        writer.writeVarUint(index);
+        writeRecord(writer, kind.variants[tag], record, ctx);
+    }
+};
+
+const writeRecord = (
+    writer: ByteWriter,
+    schema: Schema,
+    record: AnyRecord,
+    ctx: Context,
+): void => {
+    const bits: boolean[] = [];
+    for (const field of schema) {
+        const value = record[field.key];
+        const absent = isAbsent(field, value);
+        if (isBitField(field)) bits.push(!absent);
+        if (field.kind === "bool") bits.push(!absent && !!value);
+    }
+    for (let i = 0; i < bits.length; i += 8) {
+        let byte = 0;
+        for (let bit = 0; bit < 8 && i + bit < bits.length; bit += 1) {
+            if (bits[i + bit]) byte |= 1 << bit;
+        }
+        writer.writeByte(byte);
+    }
+    for (const field of schema) {
+        const value = record[field.key];
+        if (isAbsent(field, value)) continue;
+        writeValue(writer, field.kind, value, ctx);
+    }
+};
+
+const readValue = (reader: ByteReader, kind: FieldKind, ctx: Context): unknown => {
+    if (kind === "uint") return reader.readVarUint();
+    if (kind === "int") return reader.readVarInt();
+    if (kind === "f64") return reader.readF64();
+    if (kind === "string") return reader.readString();
+    if (kind === "interned") {
+        const code = reader.readVarUint();
+        if (code % 2 === 1) {
+            const text = reader.readString();
+            ctx.table.add(text);
+            return text;
+        }
+        const text = ctx.table.at(code / 2);
+        if (text === undefined) throw new Error("Unknown string table entry");
+        return text;
+    }
+    if (kind === "time") return reader.readVarInt() + ctx.timeBase;
+    if (kind === "timeBase") {
+        ctx.timeBase = reader.readF64();
+        return ctx.timeBase;
+    }
+    if (kind === "bool") return false;
+    if ("fixed" in kind) return reader.readVarInt() / kind.fixed;
+    if ("enum" in kind) {
+        const index = reader.readVarUint();
+        if (index >= kind.enum.length) throw new Error("Enum index out of range");
+        return kind.enum[index];
+    }
+    if ("object" in kind) return readRecord(reader, kind.object, ctx);
+    if ("array" in kind) {
+        const length = reader.readVarUint();
+        const items: unknown[] = [];
+        for (let i = 0; i < length; i += 1) {
+            items.push(readValue(reader, kind.array, ctx));
+        }
+        return items;
+    }
+    const tags = Object.keys(kind.variants);
+    const tag = tags[reader.readVarUint()];
+    if (tag === undefined) throw new Error("Variant index out of range");
+    return { [kind.union]: tag, ...readRecord(reader, kind.variants[tag], ctx) };
+};
+
+const readRecord = (reader: ByteReader, schema: Schema, ctx: Context): AnyRecord => {
+    const count = bitCount(schema);
+    const bits: boolean[] = [];
+    for (let i = 0; i < count; i += 8) {
+        const byte = reader.readByte();
+        for (let bit = 0; bit < 8 && i + bit < count; bit += 1) {
+            bits.push((byte & (1 << bit)) !== 0);
+        }
+    }
+    const record: AnyRecord = {};
+    let bitIndex = 0;
+    for (const field of schema) {
+        const present = isBitField(field) ? bits[bitIndex++] : true;
+        const boolValue = field.kind === "bool" ? bits[bitIndex++] : false;
+        if (!present) {
+            if (field.nullable) record[field.key] = null;
+            continue;
+        }
+        record[field.key] =
+            field.kind === "bool" ? boolValue : readValue(reader, field.kind, ctx);
+    }
+    return record;
+};
+
+const toBytes = (payload: BinaryPayload): Uint8Array =>
+    payload instanceof Uint8Array ? payload : new Uint8Array(payload);
+
+export const isBinaryPayload = (payload: unknown): payload is BinaryPayload =>
+    payload instanceof ArrayBuffer || payload instanceof Uint8Array;
+
+export type BinaryCodec = {
+    encodeState: (delta: SnapshotDelta) => Uint8Array;
+    decodeState: (payload: BinaryPayload) => SnapshotDelta;
+    encodeInput: (input: PlayerInput) => Uint8Array;
+    decodeInput: (payload: BinaryPayload) => PlayerInput;
+};
+
+// one codec per connection: the string tables must stay in step with the other side
+export const createBinaryCodec = (): BinaryCodec => {
+    const encodeCtx: Context = { table: new StringTable(), timeBase: 0 };
+    const decodeCtx: Context = { table: new StringTable(), timeBase: 0 };
+    let resetPending = false;
+
+    const encode = (schema: Schema, record: AnyRecord): Uint8Array => {
+        const writer = new ByteWriter();
+        const reset = resetPending || encodeCtx.table.size > MAX_TABLE_SIZE;
+        if (reset) encodeCtx.table.reset();
+        resetPending = false;
+        writer.writeByte(reset ? HEADER_TABLE_RESET : 0);
+        try {
+            writeRecord(writer, schema, record, encodeCtx);
+        } catch (error) {
+            // strings added by the failed message never reach the peer
+            resetPending = true;
+            throw error;
+        }
+        return writer.finish();
+    };
+
+    const decode = (schema: Schema, payload: BinaryPayload): AnyRecord => {
+        const reader = new ByteReader(toBytes(payload));
+        const header = reader.readByte();
+        if (header & HEADER_TABLE_RESET) decodeCtx.table.reset();
+        const record = readRecord(reader, schema, decodeCtx);
+        reader.assertDone();
+        return record;
+    };
+
+    return {
+        encodeState: (delta) => encode(SNAPSHOT_DELTA_SCHEMA, delta as unknown as AnyRecord),
+        decodeState: (payload) =>
+            decode(SNAPSHOT_DELTA_SCHEMA, payload) as unknown as SnapshotDelta,
+        encodeInput: (input) => encode(PLAYER_INPUT_SCHEMA, input as unknown as AnyRecord),
+        decodeInput: (payload) => decode(PLAYER_INPUT_SCHEMA, payload) as unknown as PlayerInput,
+    };
+};
@@ -0,0 +1,60 @@
+import { ARENA } from "./protocol";
+import type { Keys, Vec2, ZoneState } from "./protocol";
+
+export const PLAYER_SPEED = 240;
+export const PLAYER_RADIUS = 18;
+export const TIME_BUBBLE_MOVE_MULT = 0.55;
+export const FLAG_CARRIER_MOVE_MULT = 0.75;
+export const DASH_SPEED_MULT = 2.2;
+export const PHASE_DASH_MS = 250;
+
+// every player:input packet moves the player by exactly one step, on both sides
+export const INPUT_STEP_MS = 50;
+
+const clamp = (value: number, min: number, max: number): number =>
+    Math.max(min, Math.min(max, value));
+
+export const applyMovement = (
+    entity: Vec2,
+    keys: Keys,
+    dtSeconds: number,
+    speedMultiplier: number,
+): void => {
+    const dx = (keys.right ? 1 : 0) - (keys.left ? 1 : 0);
+    const dy = (keys.down ? 1 : 0) - (keys.up ? 1 : 0);
+    if (dx === 0 && dy === 0) return;
+    const length = Math.hypot(dx, dy) || 1;
+    const nx = dx / length;
+    const ny = dy / length;
+    entity.x += nx * PLAYER_SPEED * dtSeconds * speedMultiplier;
+    entity.y += ny * PLAYER_SPEED * dtSeconds * speedMultiplier;
+    entity.x = clamp(entity.x, PLAYER_RADIUS, ARENA.w - PLAYER_RADIUS);
+    entity.y = clamp(entity.y, PLAYER_RADIUS, ARENA.h - PLAYER_RADIUS);
+};
+
+export const getTimeBubbleMoveMultAt = (
+    zones: Iterable<ZoneState>,
+    x: number,
+    y: number,
+): number => {
+    for (const zone of zones) {
+        if (zone.kind !== "time_bubble") continue;
+        const dx = x - zone.x;
+        const dy = y - zone.y;
+        if (dx * dx + dy * dy <= zone.r * zone.r) {
+            return TIME_BUBBLE_MOVE_MULT;
+        }
+    }
+    return 1;
+};
+
+// the one speed rule for players; the server and the client's prediction must agree on it
+export const getPlayerMoveMult = (
+    zones: Iterable<ZoneState>,
+    position: Vec2,
+    carryingFlag: boolean,
+    dashing: boolean,
+): number =>
+    getTimeBubbleMoveMultAt(zones, position.x, position.y) *
+    (carryingFlag ? FLAG_CARRIER_MOVE_MULT : 1) *
+    (dashing ? DASH_SPEED_MULT : 1);
@@ -1,5 +1,14 @@
 export const ARENA = { w: 1200, h: 800 } as const;
 
+// bump whenever a payload shape changes; mismatched clients are turned away at hello
+export const PROTOCOL_VERSION = 2;
+
+// optional behaviour agreed during hello; the server answers with the subset it supports
+export type ProtocolFeature = "binary_codec" | "delta_snapshots" | "prediction";
+
+// identity is a random id the browser keeps between visits, so a room ban outlives a reload
+export type HelloPayload = { version: number; features: ProtocolFeature[]; identity?: string };
+
 export type Vec2 = { x: number; y: number };
 
 export type Keys = { up: boolean; down: boolean; left: boolean; right: boolean };
@@ -22,11 +31,28 @@ export type PlayerState = {
 
     heldItem?: AbilityType | null;
     shieldHp?: number;
+    team?: TeamId; // team modes only; echoes share their owner's team
+    score?: number; // koth without teams: hill points
+    lives?: number; // lms: lives left this round; both lms and survival: 0 once out
+    archetype?: BotArchetype; // survival wave bots only
+    ready?: boolean; // humans only; cleared whenever the room goes back to the lobby
 };
 
+// survival enemies: rushers close in fast, snipers keep their distance, tanks soak damage
+// and tricksters use items
+export const BOT_ARCHETYPES = ["rusher", "sniper", "tank", "trickster"] as const;
+
+export type BotArchetype = (typeof BOT_ARCHETYPES)[number];
+
+
+// what fired a bullet; "reflected" ones were sent back by a void slice
+export const BULLET_KINDS = ["blaster", "nova", "bouncer", "slash", "reflected"] as const;
+
+export type BulletKind = (typeof BULLET_KINDS)[number];
 
 export type BulletState = {
     id: string;
+    kind: BulletKind;
     ownerId: string;   // entity id (player or echo)
     ownerRootId: string; // original player id (for scoring)
     x: number;
@@ -59,14 +85,119 @@ export type GameEvent =
     | { type: "strike_mark"; id: string; x: number; y: number; etaMs: number }
     | { type: "strike_boom"; id: string; x: number; y: number; r: number };
 
-export type MatchPhase = "lobby" | "playing" | "ended";
+// countdown: everyone is frozen at their spawn until startsAtMs
+export type MatchPhase = "lobby" | "countdown" | "playing" | "ended";
+
+// the one list of modes; validation and the binary codec are derived from it
+export const GAME_MODES = ["ffa", "tdm", "ctf", "koth", "lms", "survival"] as const;
+
+export type GameMode = (typeof GAME_MODES)[number];
+
+// team ids double as their colours; a room with N teams uses the first N
+export const TEAM_IDS = ["red", "blue", "green", "yellow"] as const;
+
+export type TeamId = (typeof TEAM_IDS)[number];
+
+export type TeamScore = { id: TeamId; score: number };
 
 export type MatchState = {
     phase: MatchPhase;
     hostId: string;
+    startsAtMs?: number; // end of the countdown
     startedAtMs?: number;
     endsAtMs?: number;
     durationSec: number;
+    countdownSec: number;
+    autoStart?: boolean; // start as soon as every human is ready
+    mode: GameMode;
+    // team modes only (koth may be played solo)
+    teams?: TeamScore[];
+    friendlyFire?: boolean;
+    // how the match ends; lms and survival follow their own rules
+    winCondition: WinCondition;
+    // kills (ffa, tdm), captures (ctf) or hill points (koth) needed to win, 0 for none
+    scoreLimit?: number;
+    leadMargin?: number; // how far ahead of the runner-up the leader must be at the limit
+    overtime?: boolean; // tied at time-out: the next score that breaks the tie wins
+    // lms only
+    round?: number;
+    roundCount?: number;
+    roundWinners?: string[]; // winner's player id per finished round, "" when nobody survived
+    circle?: SafeCircle;
+    wave?: WaveState; // survival only
+};
+
+// time: the leader at time-out wins; score: first to the limit; either: whichever comes first
+export type WinCondition = "time" | "score" | "either";
+
+// settings the host may change while the room is in the lobby
+export type MatchSettings = {
+    durationSec: number;
+    countdownSec?: number;
+    autoStart?: boolean;
+    winCondition?: WinCondition;
+    scoreLimit?: number;
+    leadMargin?: number;
+};
+
+export type MatchEndReason = "score_limit" | "time_limit" | "overtime" | "rounds" | "overrun";
+
+// winners are players or teams; empty for a draw or when nobody could win
+export type MatchResult = {
+    winners: { id: string; name: string }[];
+    reason: MatchEndReason;
+    summary: MatchSummary;
+};
+
+// one pilot's match; shots, hits and accuracy count the blaster only
+export type PlayerMatchStats = {
+    playerId: string;
+    name: string;
+    team?: TeamId;
+    isBot: boolean;
+    kills: number;
+    deaths: number;
+    shots: number;
+    hits: number;
+    accuracy: number; // 0..1, 0 when nothing was fired
+    damageDealt: number;
+    damageTaken: number;
+    abilityUses: Partial<Record<AbilityType, number>>;
+    longestStreak: number;
+    echoKills: number; // kills landed by the pilot's echo
+    portalKills: number; // kills by shots that went through a portal
+    strikeMultiKills: number; // orbital strikes that killed two or more
+};
+
+export type MatchAward = {
+    title: string;
+    playerId: string;
+    name: string;
+    detail: string;
+};
+
+export type MatchSummary = {
+    players: PlayerMatchStats[];
+    awards: MatchAward[];
+};
+
+export type WaveState = {
+    number: number; // 0 until the first wave arrives; the final score once the match ends
+    phase: "intermission" | "fighting";
+    // intermission: when the next wave arrives; fighting: when it arrives even if this one is
+    // still standing
+    nextAtMs: number;
+    enemiesLeft: number;
+    livesLeft: number; // shared by every human; whoever dies with none left is out
+};
+
+// lms: players outside the circle take damage; it shrinks towards `next` in steps
+export type SafeCircle = {
+    x: number;
+    y: number;
+    r: number;
+    // absent once the circle reached its final size
+    next?: { x: number; y: number; r: number; startsAtMs: number; endsAtMs: number };
 };
 
 export type BotDifficulty = "easy" | "normal" | "hard";
@@ -74,17 +205,97 @@ export type BotDifficulty = "easy" | "normal" | "hard";
 export type StateSnapshot = {
     t: number;
     roomId: string;
-    you: { playerId: string };
+    you: { playerId: string; ackSeq: number }; // ackSeq: last player:input seq applied by the server
     players: PlayerState[];
     bullets: BulletState[];
     events: GameEvent[];
     pickups: PickupState[];
     zones: ZoneState[];
     portals: PortalState[];
+    flags: FlagState[];
     match: MatchState;
 };
 
+export type PlayerInput = {
+    seq: number;
+    dt: number; // ms since last input packet on client side (informational)
+    keys: Keys;
+    aim: Vec2; // aim in arena coords (0..w, 0..h)
+    shoot: boolean;
+    useItem: boolean; // one-shot
+    viewT?: number; // server time of the interpolated view the input was sampled against
+};
+
+// game:state and player:input travel as BinaryPayload when the binary codec was negotiated
+export type WireCodec = "json" | "binary";
+
+export type BinaryPayload = ArrayBuffer | Uint8Array;
+
+export type EntityDelta<T> = {
+    upsert: T[]; // added or changed since the baseline
+    remove: string[];
+};
+
+// game:state payload; baseId is the acked snapshot it applies to, null for a full snapshot
+export type SnapshotDelta = {
+    id: number;
+    baseId: number | null;
+    t: number;
+    roomId: string;
+    you: StateSnapshot["you"];
+    events: GameEvent[];
+    match: MatchState;
+    players: EntityDelta<PlayerState>;
+    bullets: EntityDelta<BulletState>;
+    pickups: EntityDelta<PickupState>;
+    zones: EntityDelta<ZoneState>;
+    portals: EntityDelta<PortalState>;
+    flags: EntityDelta<FlagState>;
+};
+
+export type SuspicionSignal = "input_rate" | "seq_replay" | "aim_lock" | "fire_rate";
+
+// anti-cheat heuristics per player; score decays over time, signals count every flag raised
+export type SuspicionReport = {
+    playerId: string;
+    name: string;
+    score: number;
+    signals: Record<SuspicionSignal, number>;
+};
+
+// lets a client tell failures that need handling apart from plain messages
+export type ErrorCode =
+    | "resume_failed"
+    | "version_mismatch"
+    | "rate_limited"
+    | "chat_muted"
+    | "kicked"
+    | "banned"
+    | "password_required"
+    | "wrong_password"
+    | "invalid_invite"
+    | "room_closed";
+
+// resumeToken lets a new connection take the seat back after a disconnect
+export type RoomSession = { roomId: string; playerId: string; resumeToken: string };
+
+// a valid invite gets past the password; rooms without one ignore both
+export type RoomCredentials = { password?: string; invite?: string };
+
+// invites without expiresInSec last as long as the room
+export type InviteOptions = { singleUse: boolean; expiresInSec?: number };
+
+export type RoomInvite = {
+    roomId: string;
+    token: string;
+    singleUse: boolean;
+    expiresAtMs?: number;
+};
+
 export type ClientToServerEvents = {
+    // must be the first event on every connection
+    "hello": (payload: HelloPayload) => void;
+
     "room:create": (payload: {
         name: string;
         maxPlayers: number;
@@ -93,53 +304,81 @@ export type ClientToServerEvents = {
         botCount?: number;
         botDifficulty?: BotDifficulty;
         maxHp?: number;
+        maxSpectators?: number;
+        mode?: GameMode;
+        teamCount?: number;
+        friendlyFire?: boolean;
+        scoreLimit?: number;
+        hillRelocateSec?: number;
+        lives?: number;
+        roundCount?: number;
+        password?: string; // hashed on the server, never sent back out
     }) => void;
-    "room:join": (payload: { roomId: string; name: string }) => void;
+    "room:join": (payload: { roomId: string; name: string } & RoomCredentials) => void;
+    // watch without taking a player slot
+    "room:spectate": (payload: { roomId: string; name: string } & RoomCredentials) => void;
+    "room:resume": (payload: { token: string }) => void;
 
     // sent at 20Hz
-    "player:input": (payload: {
-        seq: number;
-        dt: number; // ms since last input packet on client side (informational)
-        keys: Keys;
-        aim: Vec2; // aim in arena coords (0..w, 0..h)
-        shoot: boolean;
-        useItem: boolean; // one-shot
-    }) => void;
+    "player:input": (payload: PlayerInput | BinaryPayload) => void;
 
     "strike:confirm": (payload: { x: number; y: number }) => void;
     "portal:placeB": (payload: { x: number; y: number }) => void;
 
-    "match:configure": (payload: { durationSec: number }) => void;
+    "player:ready": (payload: { ready: boolean }) => void;
+
+    "match:configure": (payload: MatchSettings) => void;
     "match:start": () => void;
     "match:restart": () => void;
 
-    "net:ping": (payload: { t: number }) => void;
+    // host only; bans last as long as the room does
+    "room:kick": (payload: { playerId: string }) => void;
+    "room:ban": (payload: { playerId: string }) => void;
+    "chat:mute": (payload: { playerId: string; muted: boolean }) => void;
+    "invite:create": (payload: InviteOptions) => void;
+
+    "state:ack": (payload: { id: number }) => void;
+
+    "net:ping": (payload: { t: number; rttMs?: number }) => void;
 
     "chat:send": (payload: { text: string }) => void;
 };
 
 export type ServerToClientEvents = {
-    "room:created": (payload: { roomId: string; playerId: string }) => void;
-    "room:joined": (payload: { roomId: string; playerId: string }) => void;
+    "hello:ok": (payload: HelloPayload) => void;
+    "room:created": (payload: RoomSession) => void;
+    "room:joined": (payload: RoomSession) => void;
+    "room:spectating": (payload: { roomId: string; spectatorId: string }) => void;
+    // only to the host that asked for it
+    "invite:created": (payload: RoomInvite) => void;
     "rooms:list": (payload: {
         rooms: {
             roomId: string;
             playerCount: number;
             maxPlayers: number;
             isPrivate: boolean;
+            hasPassword: boolean;
             fillWithBots: boolean;
             botCount: number;
             botDifficulty: BotDifficulty;
             maxHp: number;
+            spectatorCount: number;
+            maxSpectators: number;
+            mode: GameMode;
         }[];
     }) => void;
-    "game:state": (payload: StateSnapshot) => void;
+    "game:state": (payload: SnapshotDelta | BinaryPayload) => void;
     "net:pong": (payload: { t: number }) => void;
-    "error": (payload: { message: string }) => void;
+    "error": (payload: { message: string; code?: ErrorCode }) => void;
 
     "chat:message": (payload: ChatMessage) => void;
     "chat:history": (payload: { messages: ChatMessage[] }) => void;
+    // everyone the host has muted, sent on join and whenever it changes
+    "chat:muted": (payload: { playerIds: string[] }) => void;
     "match:toast": (payload: { message: string }) => void;
+    "match:ended": (payload: MatchResult) => void;
+    // host only
+    "anticheat:report": (payload: { players: SuspicionReport[] }) => void;
 };
 
 
@@ -174,13 +413,21 @@ export type PickupState = {
 
 export type ZoneState = {
     id: string;
-    kind: "time_bubble";
+    kind: "time_bubble" | "control";
     x: number;
     y: number;
     r: number;
-    expiresAtMs: number;
+    expiresAtMs: number; // control zones relocate at this time instead
+    // control zones only; sides are player ids, or team ids in team modes
+    ownerId?: string;
+    capturingId?: string;
+    progress?: number; // 0..1 towards capturingId taking the zone
+    contested?: boolean;
 };
 
+// spectators talk among themselves; players never see that channel
+export type ChatChannel = "room" | "spectators";
+
 export type ChatMessage = {
     id: string;
     roomId: string;
@@ -188,4 +435,18 @@ export type ChatMessage = {
     fromName: string;
     text: string;
     t: number;
+    channel?: ChatChannel; // "room" when missing
+    system?: boolean; // moderation notices; fromId and fromName are empty
+};
+
+// ctf only: one flag per team, id is the team it belongs to. A flag is home when it has
+// neither a carrier nor a return time.
+export type FlagState = {
+    id: TeamId;
+    x: number;
+    y: number;
+    baseX: number;
+    baseY: number;
+    carrierId?: string;
+    returnsAtMs?: number; // set while dropped away from its base
 };
@@ -0,0 +1,51 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { SnapshotDelta } from "./protocol";
+import { REPLAY_FORMAT_VERSION, decodeReplayFrames, type SnapshotReplay } from "./replay";
+
+const frame = (id: number, baseId: number | null, x: number): SnapshotDelta => ({
+    id,
+    baseId,
+    t: 1000 + id * 50,
+    roomId: "ROOM01",
+    you: { playerId: "", ackSeq: 0 },
+    events: [],
+    match: {
+        phase: "playing",
+        hostId: "p1",
+        durationSec: 60,
+        countdownSec: 5,
+        mode: "ffa",
+        winCondition: "either",
+    },
+    players: { upsert: [], remove: [] },
+    bullets: { upsert: [], remove: [] },
+    pickups: { upsert: [{ id: "k1", type: "phase_dash", x, y: 10, r: 14 }], remove: [] },
+    zones: { upsert: [], remove: [] },
+    portals: { upsert: [], remove: [] },
+    flags: { upsert: [], remove: [] },
+});
+
+describe("decodeReplayFrames", () => {
+    it("applies each frame on top of the one before", () => {
+        const replay: SnapshotReplay = {
+            version: REPLAY_FORMAT_VERSION,
+            kind: "snapshots",
+            roomId: "ROOM01",
+            startedAtMs: 1000,
+            endedAtMs: 1100,
+            tickMs: 50,
+            players: [{ id: "p1", name: "Alice" }],
+            frames: [
+                frame(0, null, 100),
+                { ...frame(1, 0, 0), pickups: { upsert: [], remove: ["k1"] } },
+                frame(2, 1, 300),
+            ],
+        };
+        const snapshots = decodeReplayFrames(replay);
+        assert.deepEqual(
+            snapshots.map((snapshot) => snapshot.pickups.map((pickup) => pickup.x)),
+            [[100], [], [300]],
+        );
+    });
+});
@@ -0,0 +1,167 @@
+import type {
+    BotDifficulty,
+    FlagState,
+    GameMode,
+    MatchSettings,
+    MatchState,
+    PickupState,
+    PlayerInput,
+    PlayerState,
+    SnapshotDelta,
+    StateSnapshot,
+} from "./protocol";
+import { applySnapshotDelta } from "./snapshotDelta";
+
+// Replay files
+// ============
+//
+// A replay file is one `Replay` serialized as JSON and gzipped (`<id>.replay.json.gz`).
+// Readers must check `version` and refuse anything but REPLAY_FORMAT_VERSION. A command
+// log only reproduces its match under the rules it was recorded with, so command replays
+// from another version cannot be upgraded, only refused.
+//
+// kind "commands" (preferred, compact):
+//   The simulation config, a checkpoint of the simulation taken when the match's countdown
+//   began, and every command the room received from then on, each tagged with the number
+//   of ticks stepped before it was applied. The simulation is deterministic (fixed TICK_MS
+//   steps, seeded PRNG), so restoring the checkpoint into a simulation built from `config`
+//   and feeding it the same commands reproduces the match exactly. Only the ticks between
+//   `startedAtMs` and `endedAtMs` belong to the match; the countdown comes before them.
+//
+// kind "snapshots" (fallback):
+//   Written when the match's command log grew too long to keep. `frames` is a chain of
+//   SnapshotDelta where every frame's baseId is the previous frame's id (the first frame
+//   has baseId null), so applying them in order rebuilds each full snapshot. Recording only
+//   starts once the log is gone, so such a replay can begin part way into the match.
+//
+// Viewers only deal with snapshot replays; the server expands command replays on request.
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+export type ReplayPlayer = {
+    id: string;
+    name: string;
+};
+
+export type SimulationConfig = {
+    id: string; // prefixes entity ids
+    maxPlayers: number;
+    fillWithBots: boolean;
+    botCount: number;
+    botDifficulty: BotDifficulty;
+    maxHp: number;
+    hostId: string;
+    maxRewindMs: number;
+    seed: number;
+    startTimeMs: number;
+    mode: GameMode;
+    teamCount: number;
+    friendlyFire: boolean;
+    scoreLimit: number; // 0 for none
+    hillRelocateSec: number;
+    lives: number;
+    roundCount: number;
+};
+
+// The state a match's command log starts from, taken once the countdown has placed
+// everyone. The simulation reseeds its PRNG with `seed` at that point; anything not listed
+// here (bullets, zones, echoes, cooldowns, scheduled respawns) is empty by then.
+export type SimulationCheckpoint = {
+    tick: number;
+    timeMs: number;
+    seed: number;
+    match: MatchState;
+    players: PlayerState[];
+    parked: PlayerState[];
+    botIds: string[];
+    pickups: PickupState[];
+    flags: FlagState[];
+    latestInputs: Record<string, PlayerInput>;
+    inputQueue: Record<string, PlayerInput[]>;
+    lastProcessedSeq: Record<string, number>;
+    lastUseItemSeq: Record<string, number>;
+    viewTimes: Record<string, number>;
+    rttMs: Record<string, number>;
+    // next id suffix per entity kind
+    sequences: Record<CheckpointSequence, number>;
+    lastBotCheckMs: number;
+    // lms: the circle the countdown placed
+    circleFrom: { x: number; y: number; r: number } | null;
+    circleWarned: boolean;
+    nextCircleDamageAtMs: number;
+};
+
+export type CheckpointSequence =
+    | "bullet"
+    | "echo"
+    | "pickup"
+    | "zone"
+    | "nova"
+    | "strike"
+    | "bot"
+    | "portal";
+
+// everything that can change the simulation from outside; replaying the same list against
+// the same config reproduces the match exactly
+export type SimulationCommand =
+    | { type: "join"; player: ReplayPlayer }
+    | { type: "leave"; playerId: string }
+    | { type: "park"; playerId: string }
+    | { type: "resume"; playerId: string }
+    | { type: "input"; playerId: string; input: PlayerInput }
+    | { type: "rtt"; playerId: string; rttMs: number }
+    | { type: "strike"; playerId: string; x: number; y: number }
+    | { type: "portal"; playerId: string; x: number; y: number }
+    | { type: "ready"; playerId: string; ready: boolean }
+    | ({ type: "configure" } & MatchSettings)
+    | { type: "start" }
+    | { type: "restart" }
+    | { type: "fill_bots" }
+    | { type: "free_slots"; count: number };
+
+// tick is the number of steps taken before the command was applied
+export type LoggedCommand = { tick: number; command: SimulationCommand };
+
+type ReplayHeader = {
+    version: number;
+    roomId: string;
+    startedAtMs: number; // simulation time, same clock as snapshot `t`
+    endedAtMs: number;
+    tickMs: number;
+    players: ReplayPlayer[]; // humans present when the match ended
+};
+
+export type CommandReplay = ReplayHeader & {
+    kind: "commands";
+    config: SimulationConfig;
+    checkpoint: SimulationCheckpoint;
+    endTick: number; // steps to run before the match is over
+    commands: LoggedCommand[];
+};
+
+export type SnapshotReplay = ReplayHeader & {
+    kind: "snapshots";
+    frames: SnapshotDelta[];
+};
+
+export type Replay = CommandReplay | SnapshotReplay;
+
+export type ReplaySummary = {
+    id: string;
+    roomId: string;
+    startedAtMs: number;
+};
+
+export const replayId = (replay: Pick<Replay, "roomId" | "startedAtMs">): string =>
+    `${replay.roomId}-${replay.startedAtMs}`;
+
+// rebuilds every full snapshot of a snapshot replay, in order
+export const decodeReplayFrames = (replay: SnapshotReplay): StateSnapshot[] => {
+    const snapshots: StateSnapshot[] = [];
+    let previous: StateSnapshot | null = null;
+    for (const frame of replay.frames) {
+        previous = applySnapshotDelta(frame.baseId === null ? null : previous, frame);
+        snapshots.push(previous);
+    }
+    return snapshots;
+};
@@ -0,0 +1,57 @@
+import type { EntityDelta, SnapshotDelta, StateSnapshot } from "./protocol";
+
+export type SnapshotEntities = Pick<
+    StateSnapshot,
+    "players" | "bullets" | "pickups" | "zones" | "portals" | "flags"
+>;
+
+export const ENTITY_COLLECTIONS = [
+    "players",
+    "bullets",
+    "pickups",
+    "zones",
+    "portals",
+    "flags",
+] as const;
+
+export type EntityCollection = (typeof ENTITY_COLLECTIONS)[number];
+
+export const applyEntityDelta = <T extends { id: string }>(
+    base: T[],
+    delta: EntityDelta<T>,
+): T[] => {
+    const removed = new Set(delta.remove);
+    const upserts = new Map(delta.upsert.map((entity) => [entity.id, entity]));
+    const next: T[] = [];
+    for (const entity of base) {
+        if (removed.has(entity.id)) continue;
+        const changed = upserts.get(entity.id);
+        if (changed) {
+            next.push(changed);
+            upserts.delete(entity.id);
+        } else {
+            next.push(entity);
+        }
+    }
+    for (const entity of upserts.values()) {
+        next.push(entity);
+    }
+    return next;
+};
+
+export const applySnapshotDelta = (
+    base: StateSnapshot | null,
+    delta: SnapshotDelta,
+): StateSnapshot => ({
+    t: delta.t,
+    roomId: delta.roomId,
+    you: delta.you,
+    events: delta.events,
+    match: delta.match,
+    players: applyEntityDelta(base?.players ?? [], delta.players),
+    bullets: applyEntityDelta(base?.bullets ?? [], delta.bullets),
+    pickups: applyEntityDelta(base?.pickups ?? [], delta.pickups),
+    zones: applyEntityDelta(base?.zones ?? [], delta.zones),
+    portals: applyEntityDelta(base?.portals ?? [], delta.portals),
+    flags: applyEntityDelta(base?.flags ?? [], delta.flags),
+});
@@ -0,0 +1,240 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createBinaryCodec } from "./codec";
+import {
+    clientEventValidators,
+    isClientEventName,
+    type ClientEventName,
+    type ClientPayload,
+} from "./validation";
+
+type Case<K extends ClientEventName = ClientEventName> = {
+    valid: ClientPayload<K>;
+    optional: string[]; // keys that may be left out
+    open?: boolean; // unknown keys are ignored rather than rejected
+};
+
+const OVERSIZED = "x".repeat(513);
+
+const input: ClientPayload<"player:input"> = {
+    seq: 12,
+    dt: 50,
+    keys: { up: true, down: false, left: false, right: true },
+    aim: { x: 100, y: 200 },
+    shoot: false,
+    useItem: true,
+    viewT: 1_700_000_000_000,
+};
+
+// every optional field is filled in so each one gets mutated below
+const CASES: { [K in ClientEventName]: Case<K> } = {
+    "hello": {
+        valid: { version: 2, features: ["binary_codec"], identity: "abc-123" },
+        optional: ["identity"],
+        open: true,
+    },
+    "room:create": {
+        valid: {
+            name: "Alice",
+            maxPlayers: 6,
+            isPrivate: true,
+            fillWithBots: true,
+            botCount: 2,
+            botDifficulty: "hard",
+            maxHp: 5,
+            maxSpectators: 8,
+            mode: "ctf",
+            teamCount: 2,
+            friendlyFire: false,
+            scoreLimit: 3,
+            hillRelocateSec: 45,
+            lives: 3,
+            roundCount: 3,
+            password: "hunter2",
+        },
+        optional: [
+            "isPrivate",
+            "fillWithBots",
+            "botCount",
+            "botDifficulty",
+            "maxHp",
+            "maxSpectators",
+            "mode",
+            "teamCount",
+            "friendlyFire",
+            "scoreLimit",
+            "hillRelocateSec",
+            "lives",
+            "roundCount",
+            "password",
+        ],
+    },
+    "room:join": {
+        valid: { roomId: "ABC123", name: "Bob", password: "hunter2", invite: "f00d" },
+        optional: ["password", "invite"],
+    },
+    "room:spectate": {
+        valid: { roomId: "ABC123", name: "Bob", password: "hunter2", invite: "f00d" },
+        optional: ["password", "invite"],
+    },
+    "room:resume": { valid: { token: "deadbeef" }, optional: [] },
+    "player:input": { valid: input, optional: ["viewT"] },
+    "strike:confirm": { valid: { x: 10, y: 20 }, optional: [] },
+    "portal:placeB": { valid: { x: 10, y: 20 }, optional: [] },
+    "player:ready": { valid: { ready: true }, optional: [] },
+    "match:configure": {
+        valid: {
+            durationSec: 300,
+            countdownSec: 5,
+            autoStart: true,
+            winCondition: "score",
+            scoreLimit: 30,
+            leadMargin: 2,
+        },
+        optional: ["countdownSec", "autoStart", "winCondition", "scoreLimit", "leadMargin"],
+    },
+    "match:start": { valid: undefined, optional: [] },
+    "match:restart": { valid: undefined, optional: [] },
+    "room:kick": { valid: { playerId: "p2" }, optional: [] },
+    "room:ban": { valid: { playerId: "p2" }, optional: [] },
+    "chat:mute": { valid: { playerId: "p2", muted: true }, optional: [] },
+    "invite:create": {
+        valid: { singleUse: false, expiresInSec: 3600 },
+        optional: ["expiresInSec"],
+    },
+    "state:ack": { valid: { id: 4 }, optional: [] },
+    "net:ping": { valid: { t: 1234.5, rttMs: 40 }, optional: ["rttMs"] },
+    "chat:send": { valid: { text: "gg" }, optional: [] },
+};
+
+const wrongType = (value: unknown): unknown => {
+    if (typeof value === "string") return 42;
+    if (typeof value === "number") return String(value);
+    if (typeof value === "boolean") return value ? 1 : 0;
+    return "not an object";
+};
+
+const check = (event: ClientEventName, payload: unknown): boolean =>
+    clientEventValidators[event](payload);
+
+const events = Object.keys(CASES) as ClientEventName[];
+
+describe("clientEventValidators", () => {
+    for (const event of events) {
+        const { valid, optional, open = false } = CASES[event] as Case;
+
+        describe(event, () => {
+            it("accepts a well-formed payload", () => {
+                assert.equal(check(event, valid), true);
+            });
+
+            if (valid === undefined) {
+                it("rejects any payload", () => {
+                    for (const payload of [{}, null, 0, "start", []]) {
+                        assert.equal(check(event, payload), false, JSON.stringify(payload));
+                    }
+                });
+                return;
+            }
+
+            const record = valid as Record<string, unknown>;
+
+            it("rejects non-objects", () => {
+                for (const payload of [undefined, null, 7, "payload", [record]]) {
+                    assert.equal(check(event, payload), false, String(payload));
+                }
+            });
+
+            it(`${open ? "ignores" : "rejects"} extra keys`, () => {
+                assert.equal(check(event, { ...record, extra: true }), open);
+                const polluted = { ...record, ...JSON.parse('{"__proto__": {"x": 1}}') };
+                assert.equal(check(event, polluted), open);
+            });
+
+            for (const key of Object.keys(record)) {
+                const without = { ...record };
+                delete without[key];
+                const value = record[key];
+
+                it(`${optional.includes(key) ? "allows" : "rejects"} a missing ${key}`, () => {
+                    assert.equal(check(event, without), optional.includes(key));
+                });
+
+                it(`rejects ${key} of the wrong type`, () => {
+                    assert.equal(check(event, { ...record, [key]: wrongType(value) }), false);
+                    assert.equal(check(event, { ...record, [key]: null }), false);
+                });
+
+                if (typeof value === "number") {
+                    it(`rejects a non-finite ${key}`, () => {
+                        for (const bad of [NaN, Infinity, -Infinity]) {
+                            const payload = { ...record, [key]: bad };
+                            assert.equal(check(event, payload), false, String(bad));
+                        }
+                    });
+                }
+
+                if (typeof value === "string") {
+                    it(`rejects an oversized ${key}`, () => {
+                        assert.equal(check(event, { ...record, [key]: OVERSIZED }), false);
+                    });
+                }
+            }
+        });
+    }
+
+    describe("nested records", () => {
+        it("checks the keys and aim of player:input", () => {
+            const cases: unknown[] = [
+                { ...input, keys: { ...input.keys, up: "yes" } },
+                { ...input, keys: { up: true, down: false, left: false } },
+                { ...input, keys: { ...input.keys, jump: true } },
+                { ...input, aim: { x: NaN, y: 0 } },
+                { ...input, aim: { x: 1, y: 2, z: 3 } },
+                { ...input, seq: -1 },
+                { ...input, seq: 1.5 },
+            ];
+            for (const payload of cases) {
+                assert.equal(check("player:input", payload), false, JSON.stringify(payload));
+            }
+        });
+
+        it("takes binary player:input as is", () => {
+            const bytes = createBinaryCodec().encodeInput(input);
+            assert.equal(check("player:input", bytes), true);
+            assert.equal(check("player:input", bytes.buffer), true);
+        });
+
+        it("bounds the hello feature list", () => {
+            const features = Array.from({ length: 17 }, () => "binary_codec");
+            assert.equal(check("hello", { version: 2, features }), false);
+            assert.equal(check("hello", { version: 2, features: [OVERSIZED] }), false);
+            assert.equal(check("hello", { version: 2, features: [1] }), false);
+        });
+
+        it("lets a newer client's hello through to the version check", () => {
+            const hello = { version: 99, features: ["binary_codec"], region: { id: "eu" } };
+            assert.equal(check("hello", hello), true);
+        });
+
+        it("rejects enum values it does not know", () => {
+            assert.equal(check("room:create", { name: "A", maxPlayers: 2, mode: "br" }), false);
+            const configure = { durationSec: 60, winCondition: "kills" };
+            assert.equal(check("match:configure", configure), false);
+        });
+
+        it("rejects an empty password or invite", () => {
+            assert.equal(check("room:join", { roomId: "A", name: "B", password: "" }), false);
+            assert.equal(check("room:join", { roomId: "A", name: "B", invite: "" }), false);
+        });
+    });
+});
+
+describe("isClientEventName", () => {
+    it("only knows the events in the protocol", () => {
+        assert.equal(isClientEventName("chat:send"), true);
+        assert.equal(isClientEventName("chat:shout"), false);
+        assert.equal(isClientEventName("toString"), false);
+        assert.equal(isClientEventName(7), false);
+    });
+});
@@ -0,0 +1,166 @@
+import { isBinaryPayload } from "./codec";
+import type {
+    ClientToServerEvents,
+    Keys,
+    PlayerInput,
+    ProtocolFeature,
+    Vec2,
+} from "./protocol";
+import { GAME_MODES } from "./protocol";
+
+// Runtime checks for everything a client can send. Each check only proves the shape and
+// that numbers are finite; range clamping stays with the handlers that use the values.
+// Records with keys the schema does not know are rejected, except for hello: a newer client
+// may add fields there and must still get an answer to its version.
+
+type Check<T> = (value: unknown) => value is T;
+
+export type ClientEventName = keyof ClientToServerEvents;
+
+export type ClientPayload<K extends ClientEventName> = Parameters<ClientToServerEvents[K]>[0];
+
+const MAX_TEXT_LENGTH = 512;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isBoolean: Check<boolean> = (value): value is boolean => typeof value === "boolean";
+
+const isFiniteNumber: Check<number> = (value): value is number =>
+    typeof value === "number" && Number.isFinite(value);
+
+const isSafeUint: Check<number> = (value): value is number =>
+    Number.isSafeInteger(value) && (value as number) >= 0;
+
+const isText: Check<string> = (value): value is string =>
+    typeof value === "string" && value.length <= MAX_TEXT_LENGTH;
+
+const isNothing: Check<undefined> = (value): value is undefined => value === undefined;
+
+const optional =
+    <T>(check: Check<T>): Check<T | undefined> =>
+    (value): value is T | undefined =>
+        value === undefined || check(value);
+
+const oneOf =
+    <T extends string>(options: readonly T[]): Check<T> =>
+    (value): value is T =>
+        options.includes(value as T);
+
+const arrayOf =
+    <T>(check: Check<T>, maxLength: number): Check<T[]> =>
+    (value): value is T[] =>
+        Array.isArray(value) && value.length <= maxLength && value.every(check);
+
+const openShape =
+    <T>(fields: { [K in keyof T]-?: Check<T[K]> }): Check<T> =>
+    (value): value is T =>
+        isRecord(value) &&
+        (Object.keys(fields) as (keyof T & string)[]).every((key) => fields[key](value[key]));
+
+const shape = <T>(fields: { [K in keyof T]-?: Check<T[K]> }): Check<T> => {
+    const hasFields = openShape(fields);
+    return (value): value is T =>
+        isRecord(value) &&
+        Object.keys(value).every((key) => Object.hasOwn(fields, key)) &&
+        hasFields(value);
+};
+
+// unknown feature names are let through so a mismatched client still gets a version error
+const isFeatureName: Check<ProtocolFeature> = (value): value is ProtocolFeature =>
+    typeof value === "string" && value.length <= 64;
+
+const isIdentity: Check<string> = (value): value is string =>
+    typeof value === "string" && value.length > 0 && value.length <= 64;
+
+const isSecret: Check<string> = (value): value is string =>
+    typeof value === "string" && value.length > 0 && value.length <= 64;
+
+const isVec2 = shape<Vec2>({ x: isFiniteNumber, y: isFiniteNumber });
+
+const isKeys = shape<Keys>({
+    up: isBoolean,
+    down: isBoolean,
+    left: isBoolean,
+    right: isBoolean,
+});
+
+export const isPlayerInput = shape<PlayerInput>({
+    seq: isSafeUint,
+    dt: isFiniteNumber,
+    keys: isKeys,
+    aim: isVec2,
+    shoot: isBoolean,
+    useItem: isBoolean,
+    viewT: optional(isFiniteNumber),
+});
+
+export const clientEventValidators: { [K in ClientEventName]: Check<ClientPayload<K>> } = {
+    "hello": openShape<ClientPayload<"hello">>({
+        version: isFiniteNumber,
+        features: arrayOf(isFeatureName, 16),
+        identity: optional(isIdentity),
+    }),
+    "room:create": shape<ClientPayload<"room:create">>({
+        name: isText,
+        maxPlayers: isFiniteNumber,
+        isPrivate: optional(isBoolean),
+        fillWithBots: optional(isBoolean),
+        botCount: optional(isFiniteNumber),
+        botDifficulty: optional(oneOf(["easy", "normal", "hard"] as const)),
+        maxHp: optional(isFiniteNumber),
+        maxSpectators: optional(isFiniteNumber),
+        mode: optional(oneOf(GAME_MODES)),
+        teamCount: optional(isFiniteNumber),
+        friendlyFire: optional(isBoolean),
+        scoreLimit: optional(isFiniteNumber),
+        hillRelocateSec: optional(isFiniteNumber),
+        lives: optional(isFiniteNumber),
+        roundCount: optional(isFiniteNumber),
+        password: optional(isSecret),
+    }),
+    "room:join": shape<ClientPayload<"room:join">>({
+        roomId: isText,
+        name: isText,
+        password: optional(isSecret),
+        invite: optional(isSecret),
+    }),
+    "room:spectate": shape<ClientPayload<"room:spectate">>({
+        roomId: isText,
+        name: isText,
+        password: optional(isSecret),
+        invite: optional(isSecret),
+    }),
+    "room:resume": shape<ClientPayload<"room:resume">>({ token: isText }),
+    "player:input": (value): value is ClientPayload<"player:input"> =>
+        isBinaryPayload(value) || isPlayerInput(value),
+    "strike:confirm": isVec2,
+    "portal:placeB": isVec2,
+    "player:ready": shape<ClientPayload<"player:ready">>({ ready: isBoolean }),
+    "match:configure": shape<ClientPayload<"match:configure">>({
+        durationSec: isFiniteNumber,
+        countdownSec: optional(isFiniteNumber),
+        autoStart: optional(isBoolean),
+        winCondition: optional(oneOf(["time", "score", "either"] as const)),
+        scoreLimit: optional(isFiniteNumber),
+        leadMargin: optional(isFiniteNumber),
+    }),
+    "match:start": isNothing,
+    "match:restart": isNothing,
+    "room:kick": shape<ClientPayload<"room:kick">>({ playerId: isText }),
+    "room:ban": shape<ClientPayload<"room:ban">>({ playerId: isText }),
+    "chat:mute": shape<ClientPayload<"chat:mute">>({ playerId: isText, muted: isBoolean }),
+    "invite:create": shape<ClientPayload<"invite:create">>({
+        singleUse: isBoolean,
+        expiresInSec: optional(isFiniteNumber),
+    }),
+    "state:ack": shape<ClientPayload<"state:ack">>({ id: isSafeUint }),
+    "net:ping": shape<ClientPayload<"net:ping">>({
+        t: isFiniteNumber,
+        rttMs: optional(isFiniteNumber),
+    }),
+    "chat:send": shape<ClientPayload<"chat:send">>({ text: isText }),
+};
+
+export const isClientEventName = (value: unknown): value is ClientEventName =>
+    typeof value === "string" && Object.hasOwn(clientEventValidators, value);